@@ -0,0 +1,18 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { PredictionEvaluator } from '../../src/services/predictionEvaluation';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  let request: ReturnType<typeof PredictionEvaluator.parseEvaluationRequest>;
+  try {
+    request = PredictionEvaluator.parseEvaluationRequest(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid evaluation request' });
+  }
+
+  res.status(200).json(PredictionEvaluator.evaluate(request.predictions, request.observations, request.options));
+}
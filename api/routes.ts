@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { RouteService, RouteRequest } from '../src/services/routeService';
+import { createServerRoutingProvider } from '../src/services/routingProvider';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  let request: RouteRequest;
+  try {
+    request = RouteService.parseRouteRequest(req.body);
+  } catch (error) {
+    return res.status(400).json({
+      routes: [],
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Invalid route request'
+    });
+  }
+
+  try {
+    const response = await RouteService.calculateRoutes(request, createServerRoutingProvider(process.env));
+    res.status(response.status === 'success' ? 200 : 422).json(response);
+  } catch (error) {
+    console.error('Routes API error:', error);
+    res.status(500).json({
+      routes: [],
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Route calculation failed'
+    });
+  }
+}
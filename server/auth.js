@@ -0,0 +1,230 @@
+/**
+ * Server Auth
+ * Password and wallet sign-in, signed access tokens and rotating refresh sessions
+ */
+
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { ethers } from 'ethers';
+import { authDB } from './authDatabase.js';
+import { ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_DAYS } from '../src/services/authCredentials';
+import { SIWE_NONCE_TTL_MINUTES, SiweMessage } from '../src/services/siweMessage';
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far a wallet's clock may run ahead of ours when it stamps Issued At
+const SIWE_CLOCK_SKEW_MS = 60 * 1000;
+
+// Without a configured secret, access tokens only outlive a restart through refresh
+const AUTH_SECRET = process.env.AUTH_SECRET || randomBytes(32).toString('hex');
+if (!process.env.AUTH_SECRET) {
+  console.warn('⚠️ AUTH_SECRET not set, using a random secret for this process');
+}
+
+// Emails or wallet addresses (comma-separated) that may see data across all users
+const ADMIN_ACCOUNTS = new Set(
+  (process.env.ADMIN_ACCOUNTS || '').split(',').map(account => account.trim().toLowerCase()).filter(Boolean)
+);
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+const sha256 = (value) => createHash('sha256').update(value).digest('hex');
+const sign = (value) => createHmac('sha256', AUTH_SECRET).update(value).digest('base64url');
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export async function hashPassword(password) {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${key.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+  if (!stored) return false;
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return safeEqual(key.toString('hex'), hash);
+}
+
+// Checked against for unknown emails so sign-in takes as long either way
+let decoyHash = null;
+
+export function publicUser(user) {
+  const admin = [user.email, user.address].some(account => account && ADMIN_ACCOUNTS.has(account.toLowerCase()));
+  return { id: user.id, email: user.email, address: user.address, name: user.name, admin: admin || undefined };
+}
+
+function signAccessToken(user, session) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: user.id, sid: session.id, iat: issuedAt, exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS }));
+  return {
+    token: `${header}.${payload}.${sign(`${header}.${payload}`)}`,
+    expiresAt: new Date((issuedAt + ACCESS_TOKEN_TTL_SECONDS) * 1000).toISOString()
+  };
+}
+
+function verifyAccessToken(token) {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature || !safeEqual(signature, sign(`${header}.${payload}`))) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+function sessionResponse(user, session, refreshSecret) {
+  const access = signAccessToken(user, session);
+  return {
+    user: publicUser(user),
+    accessToken: access.token,
+    refreshToken: `${session.id}.${refreshSecret}`,
+    expiresAt: access.expiresAt
+  };
+}
+
+export function startSession(user) {
+  const refreshSecret = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS).toISOString();
+  const session = authDB.createSession(user.id, sha256(refreshSecret), expiresAt);
+  return sessionResponse(user, session, refreshSecret);
+}
+
+// A new session for the account, or null when the email or password is wrong
+export async function signInWithPassword(email, password) {
+  const user = authDB.getUserByEmail(email);
+  if (!user) {
+    decoyHash = decoyHash || await hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, decoyHash);
+    return null;
+  }
+  return await verifyPassword(password, user.passwordHash) ? startSession(user) : null;
+}
+
+export function issueSiweNonce() {
+  const nonce = randomBytes(16).toString('hex');
+  authDB.addNonce(nonce, new Date(Date.now() + SIWE_NONCE_TTL_MINUTES * 60 * 1000).toISOString());
+  return nonce;
+}
+
+const uriHost = (uri) => {
+  try {
+    const url = new URL(uri);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.host : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A new session for the wallet that signed `message`, or null when the signature, nonce,
+ * domain, URI or issue time doesn't check out. The account is created on the wallet's
+ * first sign-in. Throws when the message itself is malformed.
+ */
+export function signInWithEthereum(message, signature, expectedDomain) {
+  const fields = SiweMessage.parse(message);
+  if (!expectedDomain || fields.domain !== expectedDomain || uriHost(fields.uri) !== expectedDomain) return null;
+
+  // Signed after its nonce was issued, so no older than the nonce can be
+  const now = Date.now();
+  const issuedAt = Date.parse(fields.issuedAt);
+  if (issuedAt > now + SIWE_CLOCK_SKEW_MS || issuedAt < now - SIWE_NONCE_TTL_MINUTES * 60 * 1000) return null;
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) return null;
+
+  let signer;
+  try {
+    signer = ethers.verifyMessage(message, String(signature || ''));
+  } catch {
+    return null;
+  }
+  if (signer.toLowerCase() !== fields.address.toLowerCase()) return null;
+  // Consumed only once the signature is known to be good, so garbage can't burn nonces
+  if (!authDB.consumeNonce(fields.nonce)) return null;
+
+  const address = ethers.getAddress(fields.address);
+  const user = authDB.getUserByAddress(address)
+    || authDB.createUser({ address, name: `${address.slice(0, 6)}…${address.slice(-4)}` });
+  return startSession(user);
+}
+
+function findSession(refreshToken) {
+  const [sessionId, refreshSecret] = String(refreshToken || '').split('.');
+  const session = sessionId && refreshSecret ? authDB.getSession(sessionId) : null;
+  return { session, refreshSecret };
+}
+
+/**
+ * Exchange a refresh token for a new session, or null; the old refresh token stops working.
+ * Presenting an already rotated token ends the session, since it may have been copied.
+ */
+export function refreshSession(refreshToken) {
+  const { session, refreshSecret } = findSession(refreshToken);
+  if (!session || session.expiresAt <= new Date().toISOString()) {
+    return null;
+  }
+  const user = authDB.getUser(session.userId);
+  if (!user || !safeEqual(sha256(refreshSecret), session.refreshHash)) {
+    authDB.deleteSession(session.id);
+    return null;
+  }
+
+  const nextSecret = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS).toISOString();
+  const rotated = authDB.rotateSession(session.id, sha256(nextSecret), expiresAt);
+  return sessionResponse(user, rotated, nextSecret);
+}
+
+export function endSession(refreshToken) {
+  const { session, refreshSecret } = findSession(refreshToken);
+  if (session && safeEqual(sha256(refreshSecret), session.refreshHash)) {
+    authDB.deleteSession(session.id);
+  }
+}
+
+// The account behind a request's bearer token, or null
+function requestUser(req) {
+  const header = req.headers.authorization || '';
+  const claims = header.startsWith('Bearer ') ? verifyAccessToken(header.slice(7)) : null;
+  // Signed-out sessions are rejected even while their access token hasn't expired
+  const user = claims && authDB.getSession(claims.sid) ? authDB.getUser(claims.sub) : null;
+  return user ? publicUser(user) : null;
+}
+
+/**
+ * Express middleware: requires `Authorization: Bearer <accessToken>` for a live session
+ * and sets req.user
+ */
+export function requireAuth(req, res, next) {
+  const user = requestUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  req.user = user;
+  next();
+}
+
+// Express middleware for endpoints open to everyone: sets req.user only when a valid token is sent
+export function optionalAuth(req, _res, next) {
+  req.user = requestUser(req) || undefined;
+  next();
+}
+
+// Express middleware, after requireAuth: only accounts listed in ADMIN_ACCOUNTS
+export function requireAdmin(req, res, next) {
+  if (!req.user?.admin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+}
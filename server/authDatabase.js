@@ -0,0 +1,226 @@
+/**
+ * Auth Database
+ * Stores accounts, their refresh sessions, pending wallet sign-in nonces and recent password
+ * attempts in SQLite (auth.db), so each request reads only the rows it needs. Expired rows
+ * are pruned whenever new ones are written.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+
+const DB_FILE = join(process.cwd(), 'auth.db');
+// Where accounts lived before SQLite
+const LEGACY_JSON_FILE = join(process.cwd(), 'auth.json');
+const JSON_IMPORT_MIGRATION = 'import-auth-json';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT UNIQUE,
+    address TEXT UNIQUE COLLATE NOCASE,
+    name TEXT,
+    password_hash TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    refresh_hash TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions (expires_at);
+
+  CREATE TABLE IF NOT EXISTS nonces (
+    nonce TEXT PRIMARY KEY,
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS attempts (
+    key TEXT NOT NULL,
+    attempted_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_attempts_key ON attempts (key, attempted_at);
+
+  CREATE TABLE IF NOT EXISTS migrations (
+    name TEXT PRIMARY KEY,
+    applied_at TEXT NOT NULL,
+    detail TEXT
+  );
+`;
+
+const newId = (prefix) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const toUser = (row) => row && {
+  id: row.id,
+  email: row.email ?? undefined,
+  address: row.address ?? undefined,
+  name: row.name ?? undefined,
+  passwordHash: row.password_hash ?? undefined,
+  createdAt: row.created_at
+};
+
+const toSession = (row) => row && {
+  id: row.id,
+  userId: row.user_id,
+  refreshHash: row.refresh_hash,
+  expiresAt: row.expires_at,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at
+};
+
+class AuthDatabase {
+  constructor(file, legacyJsonFile) {
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+
+    this.insertUser = this.db.prepare(`
+      INSERT OR IGNORE INTO users (id, email, address, name, password_hash, created_at)
+      VALUES (@id, @email, @address, @name, @password_hash, @created_at)
+    `);
+    this.insertSession = this.db.prepare(`
+      INSERT OR IGNORE INTO sessions (id, user_id, refresh_hash, expires_at, created_at, last_used_at)
+      VALUES (@id, @user_id, @refresh_hash, @expires_at, @created_at, @last_used_at)
+    `);
+
+    this.importJson(legacyJsonFile);
+  }
+
+  /**
+   * Copy accounts and live sessions from the JSON file used before SQLite, once. The file is left in place.
+   */
+  importJson(file) {
+    const applied = this.db.prepare('SELECT 1 FROM migrations WHERE name = ?').get(JSON_IMPORT_MIGRATION);
+    if (applied) return;
+
+    const data = existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : {};
+    const users = data.users || [];
+    const now = new Date().toISOString();
+    const sessions = (data.sessions || []).filter(session => session.expiresAt > now);
+    this.db.transaction(() => {
+      users.forEach(user => this.insertUser.run({
+        id: user.id,
+        email: user.email ?? null,
+        address: user.address ?? null,
+        name: user.name ?? null,
+        password_hash: user.passwordHash ?? null,
+        created_at: user.createdAt
+      }));
+      sessions.forEach(session => this.insertSession.run({
+        id: session.id,
+        user_id: session.userId,
+        refresh_hash: session.refreshHash,
+        expires_at: session.expiresAt,
+        created_at: session.createdAt,
+        last_used_at: session.lastUsedAt || session.createdAt
+      }));
+      this.db.prepare('INSERT INTO migrations (name, applied_at, detail) VALUES (?, ?, ?)')
+        .run(JSON_IMPORT_MIGRATION, now, `${users.length} accounts and ${sessions.length} sessions from ${file}`);
+    })();
+
+    if (users.length > 0) {
+      console.log(`📦 Imported ${users.length} accounts from ${file}`);
+    }
+  }
+
+  /**
+   * Email accounts have a passwordHash, wallet accounts an address.
+   * Null if the email or address already has an account.
+   */
+  createUser({ email, address, name, passwordHash }) {
+    const user = { id: newId('user'), email, address, name, passwordHash, createdAt: new Date().toISOString() };
+    const { changes } = this.insertUser.run({
+      id: user.id,
+      email: email ?? null,
+      address: address ?? null,
+      name: name ?? null,
+      password_hash: passwordHash ?? null,
+      created_at: user.createdAt
+    });
+    if (changes === 0) return null;
+
+    console.log('👤 Account created:', user.id);
+    return user;
+  }
+
+  getUser(id) {
+    return toUser(this.db.prepare('SELECT * FROM users WHERE id = ?').get(id)) || null;
+  }
+
+  getUserByEmail(email) {
+    return toUser(this.db.prepare('SELECT * FROM users WHERE email = ?').get(email)) || null;
+  }
+
+  getUserByAddress(address) {
+    return toUser(this.db.prepare('SELECT * FROM users WHERE address = ?').get(address)) || null;
+  }
+
+  addNonce(nonce, expiresAt) {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM nonces WHERE expires_at <= ?').run(new Date().toISOString());
+      this.db.prepare('INSERT INTO nonces (nonce, expires_at) VALUES (?, ?)').run(nonce, expiresAt);
+    })();
+  }
+
+  /**
+   * Remove a nonce so it can only be signed in with once; false if it was unknown or expired
+   */
+  consumeNonce(nonce) {
+    const entry = this.db.prepare('DELETE FROM nonces WHERE nonce = ? RETURNING expires_at').get(nonce);
+    return Boolean(entry) && entry.expires_at > new Date().toISOString();
+  }
+
+  /**
+   * Note a password attempt under `key` (e.g. `ip:…` or `account:…`), dropping attempts older than `keepSince`
+   */
+  recordAttempt(key, keepSince) {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM attempts WHERE attempted_at <= ?').run(keepSince);
+      this.db.prepare('INSERT INTO attempts (key, attempted_at) VALUES (?, ?)').run(key, new Date().toISOString());
+    })();
+  }
+
+  countAttemptsSince(key, since) {
+    return this.db.prepare('SELECT COUNT(*) AS count FROM attempts WHERE key = ? AND attempted_at > ?').get(key, since).count;
+  }
+
+  createSession(userId, refreshHash, expiresAt) {
+    const now = new Date().toISOString();
+    const session = { id: newId('session'), userId, refreshHash, expiresAt, createdAt: now, lastUsedAt: now };
+    this.db.transaction(() => {
+      // Drop expired sessions while we're writing anyway
+      this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now);
+      this.insertSession.run({
+        id: session.id,
+        user_id: userId,
+        refresh_hash: refreshHash,
+        expires_at: expiresAt,
+        created_at: now,
+        last_used_at: now
+      });
+    })();
+    return session;
+  }
+
+  getSession(id) {
+    return toSession(this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(id)) || null;
+  }
+
+  rotateSession(id, refreshHash, expiresAt) {
+    const row = this.db
+      .prepare('UPDATE sessions SET refresh_hash = ?, expires_at = ?, last_used_at = ? WHERE id = ? RETURNING *')
+      .get(refreshHash, expiresAt, new Date().toISOString(), id);
+    return toSession(row) || null;
+  }
+
+  deleteSession(id) {
+    return this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+export const authDB = new AuthDatabase(DB_FILE, LEGACY_JSON_FILE);
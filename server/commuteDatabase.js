@@ -0,0 +1,97 @@
+/**
+ * Commute Database
+ * Stores saved commutes and the alerts raised for them
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+const DB_FILE = join(process.cwd(), 'commutes.json');
+
+// Alert history kept per commute
+const MAX_ALERTS_PER_COMMUTE = 50;
+
+class CommuteDatabase {
+  constructor() {
+    this.ensureDatabase();
+  }
+
+  ensureDatabase() {
+    if (!existsSync(DB_FILE)) {
+      writeFileSync(DB_FILE, JSON.stringify({ commutes: [], alerts: [] }, null, 2));
+    }
+  }
+
+  read() {
+    const data = readFileSync(DB_FILE, 'utf-8');
+    return JSON.parse(data);
+  }
+
+  write(data) {
+    writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
+  }
+
+  addCommute(input) {
+    const db = this.read();
+    const commute = {
+      ...input,
+      id: `commute_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+      lastCheck: null
+    };
+
+    db.commutes.push(commute);
+    this.write(db);
+    console.log('🗓️ Commute saved:', commute.id, commute.name);
+    return commute;
+  }
+
+  getCommute(id) {
+    return this.read().commutes.find(commute => commute.id === id) || null;
+  }
+
+  getCommutes(ownerId) {
+    return this.read().commutes.filter(commute => commute.ownerId === ownerId);
+  }
+
+  getAllCommutes() {
+    return this.read().commutes;
+  }
+
+  deleteCommute(id) {
+    const db = this.read();
+    const before = db.commutes.length;
+    db.commutes = db.commutes.filter(commute => commute.id !== id);
+    db.alerts = db.alerts.filter(alert => alert.commuteId !== id);
+    this.write(db);
+    return db.commutes.length < before;
+  }
+
+  /**
+   * Record that a departure was checked, with any alerts it raised
+   */
+  recordCheck(id, departure, alerts) {
+    const db = this.read();
+    const commute = db.commutes.find(entry => entry.id === id);
+    if (!commute) return;
+
+    commute.lastCheck = { departure, at: new Date().toISOString() };
+    db.alerts.push(...alerts);
+
+    const kept = db.alerts.filter(alert => alert.commuteId === id).slice(-MAX_ALERTS_PER_COMMUTE);
+    db.alerts = [...db.alerts.filter(alert => alert.commuteId !== id), ...kept];
+    this.write(db);
+  }
+
+  /**
+   * Alerts newest first, for one commute or for all of an owner's commutes
+   */
+  getAlerts({ commuteId, ownerId, since }) {
+    return this.read().alerts
+      .filter(alert => (!commuteId || alert.commuteId === commuteId) && (!ownerId || alert.ownerId === ownerId))
+      .filter(alert => !since || Date.parse(alert.createdAt) > Date.parse(since))
+      .reverse();
+  }
+}
+
+export const commuteDB = new CommuteDatabase();
@@ -0,0 +1,85 @@
+/**
+ * Incident Report Database
+ * Stores crowdsourced incident reports and their votes
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+const DB_FILE = join(process.cwd(), 'incident-reports.json');
+
+// Reports are dropped this long after they were created
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+class IncidentReportDatabase {
+  constructor() {
+    this.ensureDatabase();
+  }
+
+  ensureDatabase() {
+    if (!existsSync(DB_FILE)) {
+      writeFileSync(DB_FILE, JSON.stringify({ reports: [] }, null, 2));
+    }
+  }
+
+  read() {
+    const data = readFileSync(DB_FILE, 'utf-8');
+    return JSON.parse(data);
+  }
+
+  write(data) {
+    const cutoff = Date.now() - RETENTION_MS;
+    data.reports = data.reports.filter(report => Date.parse(report.createdAt) >= cutoff);
+    writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
+  }
+
+  addReport(input) {
+    const db = this.read();
+    const report = {
+      id: `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: input.type,
+      location: input.location,
+      note: input.note,
+      reporterId: input.reporterId,
+      createdAt: new Date().toISOString(),
+      votes: []
+    };
+
+    db.reports.push(report);
+    this.write(db);
+    console.log('🚧 Incident reported:', report.id, report.type);
+    return report;
+  }
+
+  getReport(id) {
+    return this.read().reports.find(report => report.id === id) || null;
+  }
+
+  getAllReports() {
+    return this.read().reports;
+  }
+
+  /**
+   * Votes a voter has cast since an ISO time, across all reports
+   */
+  countVotesSince(voterId, since) {
+    return this.read().reports.reduce((count, report) =>
+      count + report.votes.filter(vote => vote.voterId === voterId && vote.at > since).length, 0);
+  }
+
+  /**
+   * Record a vote, replacing any earlier vote by the same voter
+   */
+  addVote(id, voterId, vote) {
+    const db = this.read();
+    const report = db.reports.find(entry => entry.id === id);
+    if (!report) return null;
+
+    report.votes = report.votes.filter(entry => entry.voterId !== voterId);
+    report.votes.push({ voterId, vote, at: new Date().toISOString() });
+    this.write(db);
+    return report;
+  }
+}
+
+export const incidentReportDB = new IncidentReportDatabase();
@@ -1,9 +1,28 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
+import http from 'http';
+import https from 'https';
+import { lookup } from 'dns/promises';
 import { ethers } from 'ethers';
 import { createZGComputeNetworkBroker } from '@0glabs/0g-serving-broker';
 import { storageDB } from './storageDatabase.js';
+import { incidentReportDB } from './incidentReportDatabase.js';
+import { commuteDB } from './commuteDatabase.js';
+import { savedPlacesDB } from './savedPlacesDatabase.js';
+import { authDB } from './authDatabase.js';
+import { endSession, hashPassword, issueSiweNonce, optionalAuth, refreshSession, requireAdmin, requireAuth, signInWithEthereum, signInWithPassword, startSession } from './auth.js';
+import { RouteService } from '../src/services/routeService';
+import { createServerRoutingProvider } from '../src/services/routingProvider';
+import { PredictionEvaluator } from '../src/services/predictionEvaluation';
+import { IncidentReportScoring, MAX_VOTES_PER_HOUR, reportToIncident } from '../src/services/incidentReports';
+import { haversineKm } from '../src/services/geo';
+import { createIncidentSources, createServerTrafficSources } from '../src/services/trafficSource';
+import { TrafficAggregator } from '../src/services/trafficStream';
+import { CommuteWatch, isPrivateAddress } from '../src/services/commuteWatch';
+import { MAX_FAVORITES, SavedPlaces } from '../src/services/savedPlaces';
+import { AuthCredentials, MAX_FAILED_SIGN_INS_PER_HOUR, MAX_PASSWORD_ATTEMPTS_PER_IP_PER_HOUR } from '../src/services/authCredentials';
+import { MAX_METADATA_PAGE_SIZE, StorageMetadataService } from '../src/services/storageMetadata';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
@@ -20,6 +39,122 @@ const DEFAULT_PROVIDER = process.env.DEFAULT_PROVIDER || process.env.VITE_DEFAUL
 // Simple upload queue to prevent nonce conflicts
 let uploadQueue = Promise.resolve();
 
+// Routing provider instance
+let routingProvider = null;
+
+function getRoutingProvider() {
+  if (!routingProvider) {
+    routingProvider = createServerRoutingProvider(process.env);
+  }
+  return routingProvider;
+}
+
+// Crowdsourced reports near a point, scored now
+function scoredReportsNear(center, radiusKm) {
+  const now = new Date();
+  return incidentReportDB.getAllReports()
+    .filter(report => haversineKm(center, report.location) <= radiusKm)
+    .map(report => IncidentReportScoring.score(report, now));
+}
+
+// Confirmed reports read straight from the database rather than over the API
+const incidentReportSource = {
+  name: 'user-report',
+  async fetchIncidents(center, radiusKm) {
+    return scoredReportsNear(center, radiusKm)
+      .filter(report => report.status === 'confirmed')
+      .map(report => reportToIncident(report, this.name));
+  }
+};
+
+// POST JSON to a webhook over a connection to an address that was already resolved and checked.
+// Letting the request look the name up again would allow a rebinding DNS server to swap in a private one.
+function postToAddress(url, body, { address, family }) {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+      lookup: (_hostname, options, callback) =>
+        options.all ? callback(null, [{ address, family }]) : callback(null, address, family),
+      timeout: 10000
+    }, response => {
+      response.resume();
+      resolve(response.statusCode);
+    });
+    request.on('timeout', () => request.destroy(new Error('Webhook timed out')));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// Post an alert to the commute's webhook; returns the delivery status stored with the alert
+async function deliverCommuteWebhook(commute, alert) {
+  try {
+    // The URL was checked when saved, but a public name can still resolve to a private address
+    const url = new URL(commute.webhookUrl);
+    const addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      throw new Error('Webhook host resolves to a private address');
+    }
+
+    // Redirects aren't followed, so they can't lead somewhere the check above didn't see
+    const status = await postToAddress(url, JSON.stringify({
+      commute: { id: commute.id, name: commute.name, destination: commute.destination },
+      alert
+    }), addresses[0]);
+    if (status < 200 || status >= 300) throw new Error(`Webhook returned ${status}`);
+    return 'sent';
+  } catch (error) {
+    console.warn(`Commute webhook for ${commute.id} failed:`, error?.message || error);
+    return 'failed';
+  }
+}
+
+// Re-evaluate commutes whose departure is coming up and raise alerts for them
+let checkingCommutes = false;
+async function checkCommutes() {
+  if (checkingCommutes) return;
+  checkingCommutes = true;
+  try {
+    const now = new Date();
+    for (const commute of commuteDB.getAllCommutes()) {
+      const departure = CommuteWatch.dueDeparture(commute, now);
+      if (!departure) continue;
+
+      try {
+        const response = await RouteService.calculateRoutes({
+          origin: commute.origin,
+          destination: commute.destination,
+          travelMode: commute.travelMode,
+          departAt: departure
+        }, getRoutingProvider());
+        if (response.status !== 'success') {
+          console.warn(`Commute ${commute.id} check failed:`, response.message);
+          continue;
+        }
+
+        const history = commuteDB.getAlerts({ commuteId: commute.id });
+        const alerts = CommuteWatch.evaluate(commute, response.routes, departure, history, now);
+        for (const alert of alerts) {
+          if (commute.webhookUrl) alert.webhook = await deliverCommuteWebhook(commute, alert);
+          console.log('🔔 Commute alert:', alert.message);
+        }
+        commuteDB.recordCheck(commute.id, departure.toISOString(), alerts);
+      } catch (error) {
+        console.error(`Commute ${commute.id} check failed:`, error);
+      }
+    }
+  } finally {
+    checkingCommutes = false;
+  }
+}
+
+// Live traffic aggregation shared by every stream subscriber
+const trafficAggregator = new TrafficAggregator(
+  createServerTrafficSources(process.env),
+  [incidentReportSource, ...createIncidentSources(process.env)]
+);
+
 // Fallback defaults loader
 async function loadFallbackDefaults() {
   try {
@@ -174,6 +309,350 @@ app.get('/api/health', (_req, res) => {
   res.json({ ok: true });
 });
 
+// Every password attempt from a client address counts, since each one runs scrypt
+function passwordAttemptsExceeded(req, hourAgo) {
+  return authDB.countAttemptsSince(`ip:${req.ip}`, hourAgo) >= MAX_PASSWORD_ATTEMPTS_PER_IP_PER_HOUR;
+}
+
+// Accounts and sessions; protected endpoints take `Authorization: Bearer <accessToken>`
+app.post('/api/auth/signup', async (req, res) => {
+  let input;
+  try {
+    input = AuthCredentials.parseSignUp(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid sign-up' });
+  }
+
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  if (passwordAttemptsExceeded(req, hourAgo)) {
+    return res.status(429).json({ error: 'Too many attempts, please try again later' });
+  }
+  authDB.recordAttempt(`ip:${req.ip}`, hourAgo);
+
+  if (authDB.getUserByEmail(input.email)) {
+    return res.status(409).json({ error: 'An account with this email already exists' });
+  }
+
+  // Checked again on create: another sign-up for the same email may finish while this one hashes
+  const passwordHash = await hashPassword(input.password);
+  const user = authDB.createUser({ email: input.email, name: input.name || input.email.split('@')[0], passwordHash });
+  if (!user) {
+    return res.status(409).json({ error: 'An account with this email already exists' });
+  }
+  res.status(201).json(startSession(user));
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  let input;
+  try {
+    input = AuthCredentials.parseSignIn(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid sign-in' });
+  }
+
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  if (passwordAttemptsExceeded(req, hourAgo)) {
+    return res.status(429).json({ error: 'Too many attempts, please try again later' });
+  }
+  if (authDB.countAttemptsSince(`account:${input.email}`, hourAgo) >= MAX_FAILED_SIGN_INS_PER_HOUR) {
+    return res.status(429).json({ error: 'Too many failed sign-ins for this account, please try again later' });
+  }
+  authDB.recordAttempt(`ip:${req.ip}`, hourAgo);
+
+  const session = await signInWithPassword(input.email, input.password);
+  if (!session) {
+    authDB.recordAttempt(`account:${input.email}`, hourAgo);
+    return res.status(401).json({ error: 'Invalid email or password' });
+  }
+  res.json(session);
+});
+
+// Sign-In with Ethereum: sign a message carrying this nonce, then post it to /verify
+app.post('/api/auth/siwe/nonce', (_req, res) => {
+  res.json({ nonce: issueSiweNonce() });
+});
+
+app.post('/api/auth/siwe/verify', (req, res) => {
+  // The message must name the site the user signed in from (or SIWE_DOMAIN when set)
+  let expectedDomain = process.env.SIWE_DOMAIN || null;
+  if (!expectedDomain && req.headers.origin) {
+    try {
+      expectedDomain = new URL(req.headers.origin).host;
+    } catch {
+      expectedDomain = null;
+    }
+  }
+  if (!expectedDomain) {
+    return res.status(400).json({ error: 'Wallet sign-in needs an Origin header, or SIWE_DOMAIN set on the server' });
+  }
+
+  let session;
+  try {
+    session = signInWithEthereum(req.body?.message, req.body?.signature, expectedDomain);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid sign-in message' });
+  }
+  if (!session) {
+    return res.status(401).json({ error: 'Signature could not be verified, please try again' });
+  }
+  res.json(session);
+});
+
+app.post('/api/auth/refresh', (req, res) => {
+  const session = refreshSession(req.body?.refreshToken);
+  if (!session) {
+    return res.status(401).json({ error: 'Session expired, please sign in again' });
+  }
+  res.json(session);
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  endSession(req.body?.refreshToken);
+  res.json({ ok: true });
+});
+
+app.get('/api/auth/me', requireAuth, (req, res) => {
+  res.json({ user: req.user });
+});
+
+// Server-Sent Events: the area's traffic conditions, then only what changes on each refresh
+app.get('/api/traffic/stream', (req, res) => {
+  const lat = Number(req.query.lat);
+  const lng = Number(req.query.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return res.status(400).json({ error: 'A valid lat and lng are required' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const unsubscribe = trafficAggregator.subscribe({ lat, lng }, delta => {
+    res.write(`data: ${JSON.stringify(delta)}\n\n`);
+  });
+  // Comments keep proxies from closing an idle stream between refreshes
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
+// The signed-in user's saved routes, newest first
+app.get('/api/saved-routes', requireAuth, (req, res) => {
+  res.json({ routes: savedPlacesDB.getRoutes(req.user.id) });
+});
+
+app.post('/api/saved-routes', requireAuth, (req, res) => {
+  let input;
+  try {
+    input = SavedPlaces.parseRoute(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid route' });
+  }
+
+  res.status(201).json(savedPlacesDB.addRoute({ ...input, user_id: req.user.id }));
+});
+
+app.delete('/api/saved-routes/:id', requireAuth, (req, res) => {
+  const route = savedPlacesDB.getRoute(req.params.id);
+  if (!route || route.user_id !== req.user.id) {
+    return res.status(404).json({ error: 'Saved route not found' });
+  }
+
+  savedPlacesDB.deleteRoute(route.id);
+  res.json({ ok: true });
+});
+
+app.get('/api/favorites', requireAuth, (req, res) => {
+  res.json({ favorites: savedPlacesDB.getFavorites(req.user.id) });
+});
+
+// Saving a label the user already has (e.g. "Home") moves it to the new address
+app.post('/api/favorites', requireAuth, (req, res) => {
+  let input;
+  try {
+    input = SavedPlaces.parseFavorite(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid favorite' });
+  }
+
+  const favorites = savedPlacesDB.getFavorites(req.user.id);
+  const isNewLabel = !favorites.some(favorite => favorite.label.toLowerCase() === input.label.toLowerCase());
+  if (isNewLabel && favorites.length >= MAX_FAVORITES) {
+    return res.status(400).json({ error: `You can keep at most ${MAX_FAVORITES} favorites` });
+  }
+
+  const { favorite, created } = savedPlacesDB.saveFavorite({ ...input, user_id: req.user.id });
+  res.status(created ? 201 : 200).json(favorite);
+});
+
+app.put('/api/favorites/:id', requireAuth, (req, res) => {
+  const favorite = savedPlacesDB.getFavorite(req.params.id);
+  if (!favorite || favorite.user_id !== req.user.id) {
+    return res.status(404).json({ error: 'Favorite not found' });
+  }
+
+  let input;
+  try {
+    input = SavedPlaces.parseFavorite(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid favorite' });
+  }
+
+  const labelTaken = savedPlacesDB.getFavorites(req.user.id)
+    .some(entry => entry.id !== favorite.id && entry.label.toLowerCase() === input.label.toLowerCase());
+  if (labelTaken) {
+    return res.status(409).json({ error: `You already have a favorite called ${input.label}` });
+  }
+
+  res.json(savedPlacesDB.updateFavorite(favorite.id, input));
+});
+
+app.delete('/api/favorites/:id', requireAuth, (req, res) => {
+  const favorite = savedPlacesDB.getFavorite(req.params.id);
+  if (!favorite || favorite.user_id !== req.user.id) {
+    return res.status(404).json({ error: 'Favorite not found' });
+  }
+
+  savedPlacesDB.deleteFavorite(favorite.id);
+  res.json({ ok: true });
+});
+
+// The signed-in user's saved commutes, with their next departure
+app.get('/api/commutes', requireAuth, (req, res) => {
+  const commutes = commuteDB.getCommutes(req.user.id).map(commute => ({
+    ...commute,
+    nextDeparture: CommuteWatch.nextDeparture(commute.schedule)?.toISOString() ?? null
+  }));
+  res.json({ commutes });
+});
+
+app.post('/api/commutes', requireAuth, (req, res) => {
+  let input;
+  try {
+    input = CommuteWatch.parseCommute(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid commute' });
+  }
+
+  res.status(201).json(commuteDB.addCommute({ ...input, ownerId: req.user.id }));
+});
+
+app.delete('/api/commutes/:id', requireAuth, (req, res) => {
+  const commute = commuteDB.getCommute(req.params.id);
+  if (!commute || commute.ownerId !== req.user.id) {
+    return res.status(404).json({ error: 'Commute not found' });
+  }
+
+  commuteDB.deleteCommute(commute.id);
+  res.json({ ok: true });
+});
+
+// Alerts across the user's commutes, newest first; `since` (ISO) returns only newer ones
+app.get('/api/commutes/alerts', requireAuth, (req, res) => {
+  const { since } = req.query;
+  if (since !== undefined && Number.isNaN(Date.parse(since))) {
+    return res.status(400).json({ error: 'since must be an ISO 8601 date-time' });
+  }
+
+  res.json({ alerts: commuteDB.getAlerts({ ownerId: req.user.id, since }) });
+});
+
+app.get('/api/commutes/:id/alerts', requireAuth, (req, res) => {
+  const commute = commuteDB.getCommute(req.params.id);
+  if (!commute || commute.ownerId !== req.user.id) {
+    return res.status(404).json({ error: 'Commute not found' });
+  }
+
+  res.json({ alerts: commuteDB.getAlerts({ commuteId: commute.id }) });
+});
+
+// Calculate route alternatives without the Maps JS SDK
+app.post('/api/routes', async (req, res) => {
+  let request;
+  try {
+    request = RouteService.parseRouteRequest(req.body);
+  } catch (error) {
+    return res.status(400).json({ routes: [], status: 'error', message: error?.message || 'Invalid route request' });
+  }
+
+  try {
+    const response = await RouteService.calculateRoutes(request, getRoutingProvider());
+    res.status(response.status === 'success' ? 200 : 422).json(response);
+  } catch (error) {
+    console.error('Route calculation failed:', error);
+    res.status(500).json({ routes: [], status: 'error', message: error?.message || 'Route calculation failed' });
+  }
+});
+
+// Score logged predictions against observations (logs can exceed the default body limit)
+app.post('/api/predictions/evaluate', express.json({ limit: '5mb' }), (req, res) => {
+  let request;
+  try {
+    request = PredictionEvaluator.parseEvaluationRequest(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid evaluation request' });
+  }
+
+  res.json(PredictionEvaluator.evaluate(request.predictions, request.observations, request.options));
+});
+
+// Crowdsourced incident reports near a point, scored now; expired reports are left out
+app.get('/api/incidents/reports', optionalAuth, (req, res) => {
+  const lat = Number(req.query.lat);
+  const lng = Number(req.query.lng);
+  const radiusKm = req.query.radiusKm === undefined ? 10 : Number(req.query.radiusKm);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !(radiusKm > 0)) {
+    return res.status(400).json({ error: 'lat, lng and a positive radiusKm are required' });
+  }
+
+  const reports = scoredReportsNear({ lat, lng }, radiusKm)
+    .filter(report => report.status !== 'expired')
+    .map(report => IncidentReportScoring.toPublic(report, req.user?.id));
+
+  res.json({ reports });
+});
+
+app.post('/api/incidents/reports', requireAuth, (req, res) => {
+  let input;
+  try {
+    input = IncidentReportScoring.parseReport(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid incident report' });
+  }
+
+  const report = incidentReportDB.addReport({ ...input, reporterId: req.user.id });
+  res.status(201).json(IncidentReportScoring.toPublic(IncidentReportScoring.score(report), req.user.id));
+});
+
+// Confirm or dismiss a report seen nearby
+app.post('/api/incidents/reports/:id/votes', requireAuth, (req, res) => {
+  const report = incidentReportDB.getReport(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  let vote;
+  try {
+    vote = IncidentReportScoring.parseVote(req.body, report, req.user.id);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid vote' });
+  }
+
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  if (incidentReportDB.countVotesSince(req.user.id, hourAgo) >= MAX_VOTES_PER_HOUR) {
+    return res.status(429).json({ error: `You can vote at most ${MAX_VOTES_PER_HOUR} times an hour` });
+  }
+
+  const updated = incidentReportDB.addVote(report.id, vote.voterId, vote.vote);
+  res.json(IncidentReportScoring.toPublic(IncidentReportScoring.score(updated), req.user.id));
+});
+
 // Compute-ready endpoints for plug-and-play when network is back
 app.get('/api/compute/services', async (_req, res) => {
   try {
@@ -246,7 +725,7 @@ app.get('/api/wallet', async (_req, res) => {
   }
 });
 
-app.get('/api/ledger', async (_req, res) => {
+app.get('/api/ledger', requireAuth, async (_req, res) => {
   try {
     const b = await initBroker();
     const info = await b.ledger.getLedger();
@@ -257,7 +736,7 @@ app.get('/api/ledger', async (_req, res) => {
   }
 });
 
-app.post('/api/ledger/fund', async (req, res) => {
+app.post('/api/ledger/fund', requireAuth, async (req, res) => {
   try {
     const amountStr = String(req.body?.amount || '').trim();
     if (!amountStr) {
@@ -297,7 +776,7 @@ app.post('/api/ledger/fund', async (req, res) => {
   }
 });
 
-app.post('/api/ledger/deposit', async (req, res) => {
+app.post('/api/ledger/deposit', requireAuth, async (req, res) => {
   try {
     const amountStr = String(req.body?.amount || '').trim();
     if (!amountStr) {
@@ -325,7 +804,7 @@ app.post('/api/ledger/deposit', async (req, res) => {
   }
 });
 
-app.post('/api/ledger/transfer', async (req, res) => {
+app.post('/api/ledger/transfer', requireAuth, async (req, res) => {
   try {
     const b = await initBroker();
     const providerAddr = String(req.body?.provider || '').trim();
@@ -418,12 +897,16 @@ app.post('/api/llama', async (req, res) => {
 });
 
 // Save traffic data to 0G Storage
-app.post('/api/storage/save', async (req, res) => {
+app.post('/api/storage/save', requireAuth, async (req, res) => {
   const { data } = req.body;
   if (!data) {
     return res.status(400).json({ error: 'Data is required' });
   }
 
+  // Wallet users' uploads carry their address so they can find them again
+  const owner = req.user.address || null;
+  const payload = owner ? { ...data, owner } : data;
+
   // Queue this upload to prevent nonce conflicts
   uploadQueue = uploadQueue.then(async () => {
     try {
@@ -442,7 +925,7 @@ app.post('/api/storage/save', async (req, res) => {
       const signer = new ethers.Wallet(privateKey, provider);
       const indexer = new Indexer(INDEXER_RPC);
 
-      const jsonData = JSON.stringify(data, null, 2);
+      const jsonData = JSON.stringify(payload, null, 2);
       const fileName = `traffic-${Date.now()}.json`;
       const filePath = `/tmp/${fileName}`;
 
@@ -480,6 +963,8 @@ app.post('/api/storage/save', async (req, res) => {
         timestamp: result.timestamp,
         dataType: data.type || 'unknown',
         description: `${data.type || 'Data'} - ${new Date().toLocaleString()}`,
+        ownerId: req.user.id,
+        ownerAddress: owner,
         metadata: {
           count: data.count,
           destination: data.destination,
@@ -488,7 +973,7 @@ app.post('/api/storage/save', async (req, res) => {
       });
 
       console.log('✅ Saved to 0G Storage:', result);
-      return { ...result, id: metadata.id };
+      return { ...result, id: metadata.id, owner };
 
     } catch (error) {
       console.error('Storage save failed:', error);
@@ -508,28 +993,50 @@ app.post('/api/storage/save', async (req, res) => {
   }
 });
 
-// Get all storage metadata
-app.get('/api/storage/metadata', async (req, res) => {
+// The caller's storage metadata, a page at a time (?dataType&from&to&cursor&limit)
+app.get('/api/storage/metadata', requireAuth, async (req, res) => {
+  let query;
+  try {
+    query = StorageMetadataService.parseQuery(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid query' });
+  }
+
   try {
-    const stats = storageDB.getStats();
-    res.json(stats);
+    res.json(storageDB.queryMetadata({ ...query, ownerId: req.user.id }));
   } catch (error) {
     console.error('Failed to get metadata:', error);
     res.status(500).json({ error: error?.message || 'Failed to get metadata' });
   }
 });
 
-// Export all metadata for AI training
-app.get('/api/storage/export', async (req, res) => {
+// Export the caller's metadata for AI training, in pages of up to MAX_METADATA_PAGE_SIZE
+app.get('/api/storage/export', requireAuth, async (req, res) => {
+  let query;
+  try {
+    query = StorageMetadataService.parseQuery(req.query, MAX_METADATA_PAGE_SIZE);
+  } catch (error) {
+    return res.status(400).json({ error: error?.message || 'Invalid query' });
+  }
+
   try {
-    const data = storageDB.exportAll();
-    res.json(data);
+    res.json(storageDB.queryMetadata({ ...query, ownerId: req.user.id }));
   } catch (error) {
     console.error('Failed to export metadata:', error);
     res.status(500).json({ error: error?.message || 'Failed to export' });
   }
 });
 
+// Totals and latest uploads across all users
+app.get('/api/storage/admin/stats', requireAuth, requireAdmin, async (_req, res) => {
+  try {
+    res.json(storageDB.getStats());
+  } catch (error) {
+    console.error('Failed to get storage stats:', error);
+    res.status(500).json({ error: error?.message || 'Failed to get stats' });
+  }
+});
+
 // Download data from 0G Storage
 app.get('/api/storage/download/:rootHash', async (req, res) => {
   try {
@@ -740,6 +1247,9 @@ app.listen(PORT, () => {
   const hasRpc = !!(process.env.ZEROG_RPC_URL || process.env.VITE_ZEROG_RPC_URL);
   console.log(`0G server listening on :${PORT} (key:${hasPk}, rpc:${hasRpc})`);
 
+  // Commute watcher: every minute, check departures coming up within the lead time
+  setInterval(checkCommutes, 60 * 1000);
+
   // Eagerly initialize 0G broker for plug-and-play readiness
   initBroker().then(async (b) => {
     try {
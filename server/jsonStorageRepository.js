@@ -0,0 +1,94 @@
+/**
+ * JSON Storage Repository
+ * Storage metadata in a single JSON file, for development. Entries are kept in memory
+ * and the file is replaced atomically (temp file + rename) on every change.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { StorageMetadataService } from '../src/services/storageMetadata';
+import { LATEST_UPLOADS, createEntry, normalizeEntry } from './storageRepository.js';
+
+// Files without a version were written by the original StorageDatabase
+const FILE_VERSION = 2;
+
+const newestFirst = (a, b) =>
+  b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id);
+
+const isAfterCursor = (entry, cursor) =>
+  entry.timestamp < cursor.timestamp || (entry.timestamp === cursor.timestamp && entry.id < cursor.id);
+
+const countByType = (entries) => entries.reduce((acc, item) => {
+  acc[item.dataType] = (acc[item.dataType] || 0) + 1;
+  return acc;
+}, {});
+
+export class JsonStorageRepository {
+  constructor(file) {
+    this.file = file;
+    this.entries = [];
+    this.load();
+  }
+
+  load() {
+    if (!existsSync(this.file)) {
+      this.write();
+      return;
+    }
+
+    const data = JSON.parse(readFileSync(this.file, 'utf-8'));
+    this.entries = (data.metadata || []).map(normalizeEntry);
+    if (data.version !== FILE_VERSION) {
+      this.write();
+      console.log(`📦 Upgraded ${this.entries.length} storage metadata entries in ${this.file}`);
+    }
+  }
+
+  write() {
+    const tempFile = `${this.file}.${process.pid}.tmp`;
+    writeFileSync(tempFile, JSON.stringify({ version: FILE_VERSION, metadata: this.entries }, null, 2));
+    renameSync(tempFile, this.file);
+  }
+
+  addMetadata(metadata) {
+    const entry = createEntry(metadata);
+    this.entries.push(entry);
+    try {
+      this.write();
+    } catch (error) {
+      this.entries.pop();
+      throw error;
+    }
+    console.log('💾 Saved to database:', entry.id);
+    return entry;
+  }
+
+  getByRootHash(rootHash) {
+    return this.entries.find(m => m.rootHash === rootHash) || null;
+  }
+
+  queryMetadata({ ownerId, dataType, from, to, cursor, limit }) {
+    const matching = this.entries
+      .filter(m => m.ownerId === ownerId)
+      .filter(m => !dataType || m.dataType === dataType)
+      .filter(m => (!from || m.timestamp >= from) && (!to || m.timestamp < to))
+      .sort(newestFirst);
+
+    const remaining = cursor ? matching.filter(m => isAfterCursor(m, cursor)) : matching;
+    const page = remaining.slice(0, limit);
+
+    return {
+      totalFiles: matching.length,
+      byType: countByType(matching),
+      metadata: page,
+      nextCursor: remaining.length > limit ? StorageMetadataService.encodeCursor(page[page.length - 1]) : null
+    };
+  }
+
+  getStats() {
+    return {
+      totalFiles: this.entries.length,
+      byType: countByType(this.entries),
+      metadata: this.entries.slice(-LATEST_UPLOADS).reverse()
+    };
+  }
+}
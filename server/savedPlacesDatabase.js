@@ -0,0 +1,102 @@
+/**
+ * Saved Places Database
+ * Stores each user's saved routes and favorite places
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+const DB_FILE = join(process.cwd(), 'saved-places.json');
+
+const newId = (prefix) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+class SavedPlacesDatabase {
+  constructor() {
+    this.ensureDatabase();
+  }
+
+  ensureDatabase() {
+    if (!existsSync(DB_FILE)) {
+      writeFileSync(DB_FILE, JSON.stringify({ routes: [], favorites: [] }, null, 2));
+    }
+  }
+
+  read() {
+    const data = readFileSync(DB_FILE, 'utf-8');
+    return JSON.parse(data);
+  }
+
+  write(data) {
+    writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
+  }
+
+  addRoute(input) {
+    const db = this.read();
+    const route = { ...input, id: newId('route'), created_at: new Date().toISOString() };
+    db.routes.push(route);
+    this.write(db);
+    console.log('⭐ Route saved:', route.id, route.route_name);
+    return route;
+  }
+
+  getRoutes(userId) {
+    return this.read().routes.filter(route => route.user_id === userId).reverse();
+  }
+
+  getRoute(id) {
+    return this.read().routes.find(route => route.id === id) || null;
+  }
+
+  deleteRoute(id) {
+    const db = this.read();
+    db.routes = db.routes.filter(route => route.id !== id);
+    this.write(db);
+  }
+
+  /**
+   * Save a favorite; a label the user already has (e.g. "Home") is moved to the new address
+   */
+  saveFavorite(input) {
+    const db = this.read();
+    const existing = db.favorites.find(favorite =>
+      favorite.user_id === input.user_id && favorite.label.toLowerCase() === input.label.toLowerCase()
+    );
+    if (existing) {
+      Object.assign(existing, input);
+      this.write(db);
+      return { favorite: existing, created: false };
+    }
+
+    const favorite = { ...input, id: newId('favorite'), created_at: new Date().toISOString() };
+    db.favorites.push(favorite);
+    this.write(db);
+    console.log('⭐ Favorite saved:', favorite.id, favorite.label);
+    return { favorite, created: true };
+  }
+
+  getFavorites(userId) {
+    return this.read().favorites.filter(favorite => favorite.user_id === userId);
+  }
+
+  getFavorite(id) {
+    return this.read().favorites.find(favorite => favorite.id === id) || null;
+  }
+
+  updateFavorite(id, changes) {
+    const db = this.read();
+    const favorite = db.favorites.find(entry => entry.id === id);
+    if (!favorite) return null;
+
+    Object.assign(favorite, changes);
+    this.write(db);
+    return favorite;
+  }
+
+  deleteFavorite(id) {
+    const db = this.read();
+    db.favorites = db.favorites.filter(favorite => favorite.id !== id);
+    this.write(db);
+  }
+}
+
+export const savedPlacesDB = new SavedPlacesDatabase();
@@ -0,0 +1,172 @@
+/**
+ * SQLite Storage Repository
+ * Storage metadata in an embedded SQLite database. Each upload is one transactional insert;
+ * WAL mode lets reads carry on while a write is in progress.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import Database from 'better-sqlite3';
+import { StorageMetadataService } from '../src/services/storageMetadata';
+import { LATEST_UPLOADS, createEntry, normalizeEntry } from './storageRepository.js';
+
+const JSON_IMPORT_MIGRATION = 'import-storage-metadata-json';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS storage_metadata (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    root_hash TEXT,
+    tx_hash TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data_type TEXT NOT NULL,
+    description TEXT,
+    owner_id TEXT,
+    owner_address TEXT,
+    metadata TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_storage_metadata_root_hash ON storage_metadata (root_hash);
+  CREATE INDEX IF NOT EXISTS idx_storage_metadata_data_type ON storage_metadata (data_type);
+  CREATE INDEX IF NOT EXISTS idx_storage_metadata_timestamp ON storage_metadata (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_storage_metadata_owner ON storage_metadata (owner_id, timestamp, id);
+
+  CREATE TABLE IF NOT EXISTS migrations (
+    name TEXT PRIMARY KEY,
+    applied_at TEXT NOT NULL,
+    detail TEXT
+  );
+`;
+
+// txHash is usually a string but some SDK versions return an object, so it's stored as JSON
+const toRow = (entry) => ({
+  id: entry.id,
+  root_hash: entry.rootHash ?? null,
+  tx_hash: JSON.stringify(entry.txHash ?? null),
+  timestamp: entry.timestamp,
+  data_type: entry.dataType,
+  description: entry.description ?? null,
+  owner_id: entry.ownerId,
+  owner_address: entry.ownerAddress,
+  metadata: JSON.stringify(entry.metadata),
+  created_at: entry.createdAt
+});
+
+const toEntry = (row) => ({
+  id: row.id,
+  rootHash: row.root_hash,
+  txHash: JSON.parse(row.tx_hash),
+  timestamp: row.timestamp,
+  dataType: row.data_type,
+  description: row.description,
+  ownerId: row.owner_id,
+  ownerAddress: row.owner_address,
+  metadata: JSON.parse(row.metadata),
+  createdAt: row.created_at
+});
+
+const byTypeCounts = (rows) =>
+  Object.fromEntries(rows.map(row => [row.data_type, row.count]));
+
+export class SqliteStorageRepository {
+  constructor(file, legacyJsonFile) {
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    // Another process holding the write lock is waited for rather than failing the upload
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+
+    this.insert = this.db.prepare(`
+      INSERT OR IGNORE INTO storage_metadata
+        (id, root_hash, tx_hash, timestamp, data_type, description, owner_id, owner_address, metadata, created_at)
+      VALUES
+        (@id, @root_hash, @tx_hash, @timestamp, @data_type, @description, @owner_id, @owner_address, @metadata, @created_at)
+    `);
+
+    this.importJson(legacyJsonFile);
+  }
+
+  /**
+   * Copy entries from the JSON file used before SQLite, once. The file is left in place.
+   */
+  importJson(file) {
+    const applied = this.db.prepare('SELECT 1 FROM migrations WHERE name = ?').get(JSON_IMPORT_MIGRATION);
+    if (applied) return;
+
+    const entries = existsSync(file) ? (JSON.parse(readFileSync(file, 'utf-8')).metadata || []) : [];
+    this.db.transaction(() => {
+      entries.forEach(entry => this.insert.run(toRow(normalizeEntry(entry))));
+      this.db.prepare('INSERT INTO migrations (name, applied_at, detail) VALUES (?, ?, ?)')
+        .run(JSON_IMPORT_MIGRATION, new Date().toISOString(), `${entries.length} entries from ${file}`);
+    })();
+
+    if (entries.length > 0) {
+      console.log(`📦 Imported ${entries.length} storage metadata entries from ${file}`);
+    }
+  }
+
+  addMetadata(metadata) {
+    const entry = createEntry(metadata);
+    this.insert.run(toRow(entry));
+    console.log('💾 Saved to database:', entry.id);
+    return entry;
+  }
+
+  getByRootHash(rootHash) {
+    const row = this.db.prepare('SELECT * FROM storage_metadata WHERE root_hash = ? ORDER BY seq LIMIT 1').get(rootHash);
+    return row ? toEntry(row) : null;
+  }
+
+  queryMetadata({ ownerId, dataType, from, to, cursor, limit }) {
+    const conditions = ['owner_id = @ownerId'];
+    const params = { ownerId };
+    if (dataType) {
+      conditions.push('data_type = @dataType');
+      params.dataType = dataType;
+    }
+    if (from) {
+      conditions.push('timestamp >= @from');
+      params.from = from;
+    }
+    if (to) {
+      conditions.push('timestamp < @to');
+      params.to = to;
+    }
+    const where = conditions.join(' AND ');
+    const pageWhere = cursor
+      ? `${where} AND (timestamp < @cursorTimestamp OR (timestamp = @cursorTimestamp AND id < @cursorId))`
+      : where;
+    const pageParams = cursor
+      ? { ...params, cursorTimestamp: cursor.timestamp, cursorId: cursor.id, limit: limit + 1 }
+      : { ...params, limit: limit + 1 };
+
+    // One transaction so the counts and the page come from the same snapshot
+    return this.db.transaction(() => {
+      const counts = this.db
+        .prepare(`SELECT data_type, COUNT(*) AS count FROM storage_metadata WHERE ${where} GROUP BY data_type`)
+        .all(params);
+      const rows = this.db
+        .prepare(`SELECT * FROM storage_metadata WHERE ${pageWhere} ORDER BY timestamp DESC, id DESC LIMIT @limit`)
+        .all(pageParams);
+
+      const page = rows.slice(0, limit).map(toEntry);
+      return {
+        totalFiles: counts.reduce((sum, row) => sum + row.count, 0),
+        byType: byTypeCounts(counts),
+        metadata: page,
+        nextCursor: rows.length > limit ? StorageMetadataService.encodeCursor(page[page.length - 1]) : null
+      };
+    })();
+  }
+
+  getStats() {
+    return this.db.transaction(() => {
+      const counts = this.db.prepare('SELECT data_type, COUNT(*) AS count FROM storage_metadata GROUP BY data_type').all();
+      const latest = this.db.prepare('SELECT * FROM storage_metadata ORDER BY seq DESC LIMIT ?').all(LATEST_UPLOADS);
+      return {
+        totalFiles: counts.reduce((sum, row) => sum + row.count, 0),
+        byType: byTypeCounts(counts),
+        metadata: latest.map(toEntry)
+      };
+    })();
+  }
+}
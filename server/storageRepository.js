@@ -0,0 +1,46 @@
+/**
+ * Storage Repository
+ * What a storage metadata backend provides, and the entry shape they share.
+ *
+ * A repository implements:
+ *   addMetadata(metadata)      -> entry           saves one upload atomically
+ *   getByRootHash(rootHash)    -> entry | null
+ *   queryMetadata(query)       -> { totalFiles, byType, metadata, nextCursor }
+ *                                 one page of an owner's entries, newest first
+ *                                 (StorageMetadataQuery plus ownerId)
+ *   getStats()                 -> { totalFiles, byType, metadata }
+ *                                 totals across all users and the latest 50 uploads
+ */
+
+import { join } from 'path';
+
+// Where metadata lived before there was a choice of backend
+export const LEGACY_JSON_FILE = join(process.cwd(), 'storage-metadata.json');
+
+export const LATEST_UPLOADS = 50;
+
+export function createEntry(metadata) {
+  return {
+    id: `${metadata.dataType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    rootHash: metadata.rootHash,
+    txHash: metadata.txHash,
+    timestamp: metadata.timestamp,
+    dataType: metadata.dataType,
+    description: metadata.description,
+    ownerId: metadata.ownerId || null,
+    ownerAddress: metadata.ownerAddress || null,
+    metadata: metadata.metadata || {},
+    createdAt: new Date().toISOString()
+  };
+}
+
+// Fills fields older entries were saved without
+export function normalizeEntry(entry) {
+  return {
+    ...entry,
+    ownerId: entry.ownerId || null,
+    ownerAddress: entry.ownerAddress || null,
+    metadata: entry.metadata || {},
+    createdAt: entry.createdAt || entry.timestamp
+  };
+}
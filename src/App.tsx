@@ -3,10 +3,13 @@ import { Header } from './components/Header';
 import { DestinationSearch } from './components/DestinationSearch';
 // Removed TrafficList import
 import { PredictionChart } from './components/PredictionChart';
+import { TrafficMap } from './components/TrafficMap';
 import { AlternativeRoutes } from './components/AlternativeRoutes';
 import { AITrafficInsights } from './components/AITrafficInsights';
 
 import { InsightsPanel } from './components/InsightsPanel';
+import { IncidentReportPanel } from './components/IncidentReportPanel';
+import { CommutePanel } from './components/CommutePanel';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { useGeolocation } from './hooks/useGeolocation';
 import { useTrafficData } from './hooks/useTrafficData';
@@ -23,6 +26,12 @@ function AppContent() {
   const [currentRoutes, setCurrentRoutes] = useState<RouteResult[]>([]);
   const [currentDestination, setCurrentDestination] = useState<string>('');
   const [hasSearchResults, setHasSearchResults] = useState(false);
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+
+  const handleRoutesFound = (routes: RouteResult[]) => {
+    setCurrentRoutes(routes);
+    setSelectedRouteId((routes.find(route => route.isRecommended) || routes[0])?.id ?? null);
+  };
 
 
 
@@ -89,19 +98,34 @@ function AppContent() {
         <div className="mb-6 animate-fadeIn">
           <DestinationSearch 
             userLocation={userLocation} 
-            onRoutesFound={setCurrentRoutes}
+            onRoutesFound={handleRoutesFound}
             onDestinationChange={setCurrentDestination}
             onSearchStateChange={setHasSearchResults}
           />
         </div>
 
+        {/* Traffic Map - route geometry and live traffic markers */}
+        {userLocation && (
+          <div className="mb-6 animate-fadeIn" style={{ animationDelay: '50ms' }}>
+            <TrafficMap
+              trafficData={trafficData}
+              userLocation={userLocation}
+              routes={hasSearchResults ? currentRoutes : []}
+              selectedRouteId={selectedRouteId}
+              onSelectRoute={setSelectedRouteId}
+            />
+          </div>
+        )}
+
         {/* Real Route Alternatives - Only show when there are search results */}
         {hasSearchResults && currentRoutes.length > 1 && (
           <div className="mb-6 animate-fadeIn" style={{ animationDelay: '100ms' }}>
             <AlternativeRoutes 
               routes={currentRoutes}
               destination={currentDestination}
-              mainRoute={currentRoutes[0]} // First route is typically the main/recommended one
+              mainRoute={currentRoutes.find(route => route.isRecommended) || currentRoutes[0]} // Routes aren't sorted; none is recommended when all are severely congested
+              selectedRouteId={selectedRouteId}
+              onSelectRoute={setSelectedRouteId}
             />
           </div>
         )}
@@ -125,15 +149,28 @@ function AppContent() {
           {/* Left: Prediction chart */}
           <div className="lg:col-span-8">
             <div className="animate-slideInLeft">
-              <PredictionChart />
+              <PredictionChart destination={hasSearchResults ? currentDestination : undefined} />
             </div>
           </div>
 
-          {/* Right: Condensed insights panel only */}
+          {/* Right: Condensed insights panel, road reports and commutes */}
           <div className="lg:col-span-4 space-y-4 sm:space-y-6">
             <div className="animate-slideInRight" style={{ animationDelay: '150ms' }}>
               <InsightsPanel />
             </div>
+            {userLocation && (
+              <div className="animate-slideInRight" style={{ animationDelay: '200ms' }}>
+                <IncidentReportPanel />
+              </div>
+            )}
+            <div className="animate-slideInRight" style={{ animationDelay: '250ms' }}>
+              <CommutePanel
+                userLocation={userLocation}
+                destination={hasSearchResults ? currentDestination : ''}
+                routes={hasSearchResults ? currentRoutes : []}
+                selectedRouteId={selectedRouteId}
+              />
+            </div>
           </div>
         </div>
 
@@ -14,21 +14,25 @@ interface AlternativeRoutesProps {
   routes?: RouteResult[];
   destination?: string;
   mainRoute?: RouteResult;
+  selectedRouteId?: string | null;
+  onSelectRoute?: (routeId: string) => void;
 }
 
 export const AlternativeRoutes: React.FC<AlternativeRoutesProps> = ({ 
   className = '', 
   routes: providedRoutes = [], 
   destination = '', 
-  mainRoute 
+  mainRoute,
+  selectedRouteId,
+  onSelectRoute
 }) => {
   const { location: userLocation } = useGeolocation();
   const { user } = useAuth();
   const [error, setError] = useState<string | null>(null);
 
   // Filter routes to only show alternatives that are better than the main route
-  const alternativeRoutes = providedRoutes.filter((route, index) => {
-    if (!mainRoute || index === 0) return false; // Skip the main route itself
+  const alternativeRoutes = providedRoutes.filter(route => {
+    if (!mainRoute || route === mainRoute) return false; // Skip the main route itself
     
     // Only show routes that are faster (have less duration with traffic)
     const timeSavings = mainRoute.durationWithTraffic - route.durationWithTraffic;
@@ -82,6 +86,12 @@ export const AlternativeRoutes: React.FC<AlternativeRoutesProps> = ({
     return Math.max(1.0, Math.min(5.0, rating));
   };
 
+  const describeReliability = (route: AlternativeRoute) => {
+    if (!route.reliability) return `${route.durationWithTraffic} min now · not enough history for this hour yet`;
+    const { usualMinutes, p95Minutes, samples } = route.reliability;
+    return `Usually ${usualMinutes} min, plan for ${p95Minutes} (${samples} estimates at this hour)`;
+  };
+
   const renderStars = (rating: number) => {
     return Array.from({ length: 5 }, (_, i) => (
       <Star
@@ -148,7 +158,12 @@ export const AlternativeRoutes: React.FC<AlternativeRoutesProps> = ({
         <div className="space-y-3">
           {/* Best Alternative Highlight */}
           {bestAlternative && (
-            <div className="bg-success/10 border-2 border-success/30 rounded-xl p-4">
+            <div
+              onClick={() => onSelectRoute?.(bestAlternative.id)}
+              className={`bg-success/10 border-2 rounded-xl p-4 cursor-pointer transition-colors ${
+                bestAlternative.id === selectedRouteId ? 'border-primary' : 'border-success/30'
+              }`}
+            >
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center space-x-2">
                   <Award className="h-5 w-5 text-green-600 dark:text-green-400" />
@@ -181,12 +196,19 @@ export const AlternativeRoutes: React.FC<AlternativeRoutesProps> = ({
                   <div className="text-xs text-purple-700 dark:text-purple-300">Total Time</div>
                 </div>
               </div>
+              <p className="mt-3 text-xs text-gray-600 dark:text-gray-300">{describeReliability(bestAlternative)}</p>
             </div>
           )}
 
           {/* Other Alternatives */}
           {routesWithSavings.filter(route => route !== bestAlternative).map((route, index) => (
-            <div key={index} className="bg-muted/30 border border-border rounded-xl p-4 hover:bg-muted/50 transition-colors">
+            <div
+              key={index}
+              onClick={() => onSelectRoute?.(route.id)}
+              className={`bg-muted/30 border rounded-xl p-4 hover:bg-muted/50 transition-colors cursor-pointer ${
+                route.id === selectedRouteId ? 'border-primary ring-2 ring-primary/30' : 'border-border'
+              }`}
+            >
               <div className="flex items-center justify-between mb-2">
                 <h3 className="font-semibold text-gray-900 dark:text-white">{route.name}</h3>
                 <div className="flex items-center space-x-1">
@@ -221,6 +243,7 @@ export const AlternativeRoutes: React.FC<AlternativeRoutesProps> = ({
                   {route.trafficLevel ? route.trafficLevel.charAt(0).toUpperCase() + route.trafficLevel.slice(1) : 'Light'} Traffic
                 </div>
               </div>
+              <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">{describeReliability(route)}</p>
             </div>
           ))}
         </div>
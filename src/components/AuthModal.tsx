@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { X, Mail, Lock, User, Eye, EyeOff } from 'lucide-react';
+import { X, Mail, Lock, User, Eye, EyeOff, Wallet } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { MIN_PASSWORD_LENGTH } from '../services/authCredentials';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -16,7 +17,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const { signIn, signUp } = useAuth();
+  const { signIn, signUp, signInWithEthereum } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,6 +38,20 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleWalletSignIn = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await signInWithEthereum();
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Wallet sign-in failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const resetForm = () => {
     setEmail('');
     setPassword('');
@@ -117,6 +132,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full pl-10 pr-12 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                   placeholder="Enter your password"
+                  minLength={isSignUp ? MIN_PASSWORD_LENGTH : undefined}
                   required
                 />
                 <button
@@ -148,6 +164,16 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
             </button>
           </form>
 
+          <button
+            type="button"
+            onClick={handleWalletSignIn}
+            disabled={isLoading}
+            className="mt-3 w-full border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 text-gray-900 dark:text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2"
+          >
+            <Wallet className="h-4 w-4" />
+            <span>Continue with Ethereum wallet</span>
+          </button>
+
           <div className="mt-6 text-center">
             <p className="text-gray-600 dark:text-gray-400">
               {isSignUp ? 'Already have an account?' : "Don't have an account?"}
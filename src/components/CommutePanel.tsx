@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Bell, CalendarClock, ChevronDown, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import { CommuteService, SavedCommute } from '../services/commuteService';
+import type { CommuteAlert } from '../services/commuteWatch';
+import type { RouteResult } from '../services/routeService';
+import { useCommuteAlerts } from '../hooks/useCommuteAlerts';
+import { useAuth } from '../contexts/AuthContext';
+import { Location } from '../types';
+
+interface CommutePanelProps {
+  userLocation: Location | null;
+  destination: string;
+  routes: RouteResult[];
+  selectedRouteId: string | null;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const formatDays = (days: number[]) =>
+  days.length === 5 && WEEKDAYS.every(day => days.includes(day)) ? 'Weekdays'
+    : days.length === 7 ? 'Every day'
+    : days.map(day => DAY_LABELS[day]).join(', ');
+
+const formatDeparture = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+export const CommutePanel: React.FC<CommutePanelProps> = ({ userLocation, destination, routes, selectedRouteId }) => {
+  const { user } = useAuth();
+  const recentAlerts = useCommuteAlerts(user?.id ?? null);
+  const [commutes, setCommutes] = useState<SavedCommute[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [days, setDays] = useState<number[]>(WEEKDAYS);
+  const [time, setTime] = useState('08:00');
+  const [threshold, setThreshold] = useState(10);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [browserNotifications, setBrowserNotifications] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<CommuteAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedRoute = routes.find(route => route.id === selectedRouteId) ?? routes.find(route => route.isRecommended);
+
+  const loadCommutes = useCallback(async () => {
+    if (!user) return;
+    try {
+      setCommutes(await CommuteService.getCommutes());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load commutes');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadCommutes();
+  }, [loadCommutes]);
+
+  // Refresh the open history when the watcher raises something new
+  useEffect(() => {
+    if (!user || !expandedId) return;
+    CommuteService.getAlerts(expandedId)
+      .then(setHistory)
+      .catch(historyError => console.warn('Failed to load commute alerts:', historyError));
+  }, [user, expandedId, recentAlerts.length]);
+
+  if (!user) {
+    return null;
+  }
+
+  const startCreating = () => {
+    setName(destination);
+    setError(null);
+    setIsCreating(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setDays(current => (current.includes(day) ? current.filter(entry => entry !== day) : [...current, day]));
+  };
+
+  const toggleBrowserNotifications = async (enabled: boolean) => {
+    if (enabled && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    setBrowserNotifications(enabled && 'Notification' in window && Notification.permission === 'granted');
+  };
+
+  const saveCommute = async () => {
+    if (!userLocation) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await CommuteService.saveCommute({
+        name: name.trim() || destination,
+        origin: { lat: userLocation.lat, lng: userLocation.lng },
+        destination,
+        routeName: selectedRoute?.name,
+        schedule: { days, time, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+        delayThresholdMinutes: threshold,
+        browserNotifications,
+        webhookUrl: webhookUrl.trim() || undefined
+      });
+      setIsCreating(false);
+      await loadCommutes();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save commute');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteCommute = async (commute: SavedCommute) => {
+    setError(null);
+    try {
+      await CommuteService.deleteCommute(commute.id);
+      setCommutes(current => current.filter(entry => entry.id !== commute.id));
+      if (expandedId === commute.id) setExpandedId(null);
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete commute');
+    }
+  };
+
+  const toggleHistory = (commute: SavedCommute) => {
+    setHistory([]);
+    setExpandedId(expandedId === commute.id ? null : commute.id);
+  };
+
+  return (
+    <div className="card p-4 sm:p-6 rounded-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          <h2 className="section-title">Commutes</h2>
+        </div>
+        {isCreating ? (
+          <button onClick={() => setIsCreating(false)} className="btn-ghost flex items-center space-x-1 text-sm">
+            <X className="h-4 w-4" />
+            <span>Cancel</span>
+          </button>
+        ) : destination && userLocation && (
+          <button onClick={startCreating} className="btn-ghost flex items-center space-x-1 text-sm">
+            <Plus className="h-4 w-4" />
+            <span>Watch this trip</span>
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="mb-4 p-3 rounded-xl border border-border bg-muted/40 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Name, e.g. Work"
+            className="w-full px-3 py-2 text-sm rounded-lg border border-border bg-surface"
+          />
+          <p className="text-xs text-foreground/60">
+            From here to {destination}{selectedRoute ? ` via ${selectedRoute.name}` : ''}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {DAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                onClick={() => toggleDay(day)}
+                className={`px-2 py-1 rounded-lg text-xs font-medium border transition-colors duration-200 ${
+                  days.includes(day) ? 'bg-primary text-white border-primary' : 'border-border text-foreground/80 hover:bg-muted'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <label className="flex items-center space-x-2">
+              <span className="text-foreground/70">Leave at</span>
+              <input
+                type="time"
+                value={time}
+                onChange={(event) => setTime(event.target.value)}
+                className="px-2 py-1 rounded-lg border border-border bg-surface"
+              />
+            </label>
+            <label className="flex items-center space-x-2">
+              <span className="text-foreground/70">Alert over</span>
+              <input
+                type="number"
+                min={1}
+                value={threshold}
+                onChange={(event) => setThreshold(Number(event.target.value))}
+                className="w-16 px-2 py-1 rounded-lg border border-border bg-surface"
+              />
+              <span className="text-foreground/70">min delay</span>
+            </label>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-foreground/70">
+            <input
+              type="checkbox"
+              checked={browserNotifications}
+              onChange={(event) => toggleBrowserNotifications(event.target.checked)}
+            />
+            <span>Browser notifications</span>
+          </label>
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(event) => setWebhookUrl(event.target.value)}
+            placeholder="Webhook URL (optional)"
+            className="w-full px-3 py-2 text-sm rounded-lg border border-border bg-surface"
+          />
+          <button
+            onClick={saveCommute}
+            disabled={days.length === 0 || isSaving}
+            className="btn-primary w-full text-sm disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save commute'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-xs text-danger">{error}</p>}
+
+      {commutes.length === 0 ? (
+        <p className="text-sm text-foreground/60">
+          No saved commutes. Search a destination and choose "Watch this trip" to get alerts before you leave.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {commutes.map(commute => (
+            <div key={commute.id} className="p-3 rounded-xl border border-border">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">{commute.name}</span>
+                <button onClick={() => deleteCommute(commute)} className="p-1 text-foreground/60 hover:text-danger" aria-label="Delete commute">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <p className="text-xs text-foreground/60">
+                {formatDays(commute.schedule.days)} at {commute.schedule.time}
+                {commute.routeName ? ` via ${commute.routeName}` : ''} · alert over {commute.delayThresholdMinutes} min
+              </p>
+              {commute.nextDeparture && (
+                <p className="text-xs text-foreground/50">Next: {formatDeparture(commute.nextDeparture)}</p>
+              )}
+              <button
+                onClick={() => toggleHistory(commute)}
+                className="mt-2 flex items-center space-x-1 text-xs text-primary hover:text-primary/80"
+              >
+                <Bell className="h-3 w-3" />
+                <span>Alert history</span>
+                {expandedId === commute.id ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+              </button>
+              {expandedId === commute.id && (
+                history.length === 0 ? (
+                  <p className="mt-2 text-xs text-foreground/60">No alerts yet.</p>
+                ) : (
+                  <ul className="mt-2 space-y-1">
+                    {history.map(alert => (
+                      <li key={alert.id} className="text-xs text-foreground/80">
+                        <span className="text-foreground/50">{formatDeparture(alert.createdAt)}</span> {alert.message}
+                        {alert.webhook === 'failed' && <span className="text-danger"> (webhook failed)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,22 @@
-import React, { useState } from 'react';
-import { Search, MapPin, Clock, Route, Navigation, AlertTriangle, Zap, ExternalLink, Loader } from 'lucide-react';
-import { RouteService, RouteResult } from '../services/routeService';
+import React, { useEffect, useState } from 'react';
+import { Search, MapPin, Clock, Route, Navigation, AlertTriangle, Zap, ExternalLink, Loader, Plus, X, SlidersHorizontal, CornerUpRight, Star, Bookmark } from 'lucide-react';
+import { RouteService, RouteRequest, RouteResult } from '../services/routeService';
+import { FavoritePlaceService } from '../services/favoritePlaceService';
+import { SavedRouteService } from '../services/savedRouteService';
+import { FavoritePlace, SUGGESTED_FAVORITE_LABELS, SavedRouteRow } from '../services/savedPlaces';
 import { NavigationService } from '../services/navigationService';
 import { ZeroGStorageService } from '../services/0gStorageService';
 import { useAuth } from '../contexts/AuthContext';
+import { GuidancePanel } from './GuidancePanel';
+import { MAX_PREFERENCE_WEIGHT, ROUTE_FACTORS, RouteFactor } from '../services/routeRanker';
+
+const FACTOR_LABELS: Record<RouteFactor, string> = {
+  time: 'Travel time',
+  distance: 'Distance',
+  tolls: 'Avoid tolls',
+  turns: 'Fewer turns',
+  predictability: 'Predictability'
+};
 
 interface DestinationSearchProps {
   userLocation: { lat: number; lng: number } | null;
@@ -23,11 +36,38 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
   const [routes, setRoutes] = useState<RouteResult[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
+  const [stops, setStops] = useState<string[]>([]);
+  const [optimizeStops, setOptimizeStops] = useState(false);
+  const [timingMode, setTimingMode] = useState<'now' | 'departAt' | 'arriveBy'>('now');
+  const [tripTime, setTripTime] = useState('');
+  const [showPreferences, setShowPreferences] = useState(false);
+  // The search that produced the listed routes; guidance reroutes with the same mode and options
+  const [routeRequest, setRouteRequest] = useState<RouteRequest | null>(null);
+  const [guidedRoute, setGuidedRoute] = useState<{ route: RouteResult; request: RouteRequest } | null>(null);
+  const [favorites, setFavorites] = useState<FavoritePlace[]>([]);
+  const [savedRoutes, setSavedRoutes] = useState<SavedRouteRow[]>([]);
+  const [favoriteLabel, setFavoriteLabel] = useState<string | null>(null);
+  const { user, routePreferences, updateRoutePreferences } = useAuth();
+
+  useEffect(() => {
+    if (!user) {
+      setFavorites([]);
+      setSavedRoutes([]);
+      return;
+    }
+
+    FavoritePlaceService.getFavorites()
+      .then(setFavorites)
+      .catch(loadError => console.warn('Failed to load favorites:', loadError));
+    SavedRouteService.getSavedRoutes()
+      .then(setSavedRoutes)
+      .catch(loadError => console.warn('Failed to load saved routes:', loadError));
+  }, [user]);
 
-  const handleSearch = async () => {
-    if (!destination.trim() || !userLocation) {
-      if (!destination.trim()) {
+  const handleSearch = async (target: string = destination) => {
+    const query = target.trim();
+    if (!query || !userLocation) {
+      if (!query) {
         setError('Please enter a destination');
       } else if (!userLocation) {
         setError('Location access is required for route calculation. Please enable location services.');
@@ -35,7 +75,13 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
       return;
     }
 
-    console.log('Starting search for destination:', destination.trim());
+    const plannedTime = timingMode !== 'now' ? new Date(tripTime) : undefined;
+    if (plannedTime && (Number.isNaN(plannedTime.getTime()) || plannedTime.getTime() < Date.now())) {
+      setError(timingMode === 'arriveBy' ? 'Please choose an arrival time in the future' : 'Please choose a departure time in the future');
+      return;
+    }
+
+    console.log('Starting search for destination:', query);
     console.log('User location:', userLocation);
 
     setIsSearching(true);
@@ -43,12 +89,17 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
     setError(null);
 
     try {
-      const response = await RouteService.calculateRoutes({
+      const request: RouteRequest = {
         origin: userLocation,
-        destination: destination.trim(),
+        destination: query,
         travelMode: 'driving',
-        userId: user?.id
-      });
+        waypoints: stops.map(stop => stop.trim()).filter(Boolean),
+        optimizeWaypoints: optimizeStops,
+        departAt: timingMode === 'departAt' ? plannedTime : undefined,
+        arriveBy: timingMode === 'arriveBy' ? plannedTime : undefined,
+        preferences: routePreferences
+      };
+      const response = await RouteService.calculateRoutes(request);
 
       console.log('Route calculation response:', response);
 
@@ -58,12 +109,13 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
           onSearchStateChange?.(false);
         } else {
           setRoutes(response.routes);
+          setRouteRequest(request);
           setShowResults(true);
           console.log('Found routes:', response.routes.length);
 
           // Notify parent component about the routes
           onRoutesFound?.(response.routes);
-          onDestinationChange?.(destination.trim());
+          onDestinationChange?.(query);
           onSearchStateChange?.(true);
 
           // Note: Route data is now backed up periodically (every 6 hours) instead of immediately
@@ -83,6 +135,72 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
     }
   };
 
+  const pickDestination = (address: string) => {
+    setDestination(address);
+    handleSearch(address);
+  };
+
+  const saveFavorite = async () => {
+    if (!user || !favoriteLabel?.trim() || !destination.trim()) return;
+
+    setError(null);
+    try {
+      const saved = await FavoritePlaceService.saveFavorite({
+        label: favoriteLabel.trim(),
+        address: destination.trim(),
+        lat: null,
+        lng: null
+      });
+      setFavorites(current => current.some(favorite => favorite.id === saved.id)
+        ? current.map(favorite => (favorite.id === saved.id ? saved : favorite))
+        : [...current, saved]);
+      setFavoriteLabel(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save favorite');
+    }
+  };
+
+  const deleteFavorite = async (favorite: FavoritePlace) => {
+    if (!user) return;
+    try {
+      await FavoritePlaceService.deleteFavorite(favorite.id);
+      setFavorites(current => current.filter(entry => entry.id !== favorite.id));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete favorite');
+    }
+  };
+
+  const saveRoute = async (route: RouteResult) => {
+    if (!user || !userLocation) return;
+    try {
+      const saved = await SavedRouteService.saveRoute(route, { origin: userLocation, destination: destination.trim() });
+      setSavedRoutes(current => [saved, ...current]);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save route');
+    }
+  };
+
+  const deleteSavedRoute = async (savedRoute: SavedRouteRow) => {
+    if (!user) return;
+    try {
+      await SavedRouteService.deleteSavedRoute(savedRoute.id);
+      setSavedRoutes(current => current.filter(entry => entry.id !== savedRoute.id));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete saved route');
+    }
+  };
+
+  const updateStop = (index: number, value: string) => {
+    setStops(current => current.map((stop, i) => (i === index ? value : stop)));
+  };
+
+  const removeStop = (index: number) => {
+    setStops(current => current.filter((_, i) => i !== index));
+  };
+
+  const formatClockTime = (isoTime: string) =>
+    new Date(isoTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
@@ -99,7 +217,7 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
       const navigationApps = NavigationService.generateNavigationUrls({
         origin: userLocation,
         destination,
-        waypoints: route.waypoints
+        waypoints: route.stops ?? route.waypoints
       });
 
       showNavigationOptions(navigationApps, route);
@@ -323,7 +441,7 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
           />
         </div>
         <button
-          onClick={handleSearch}
+          onClick={() => handleSearch()}
           disabled={!destination.trim() || !userLocation || isSearching}
           className="absolute right-2 top-1/2 transform -translate-y-1/2 btn-primary text-sm font-medium"
         >
@@ -338,6 +456,202 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
         </button>
       </div>
 
+      {/* Favorites and saved routes */}
+      {user && (
+        <div className="mb-4 sm:mb-6 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {favorites.map(favorite => (
+              <span key={favorite.id} className="inline-flex items-center rounded-full border border-border text-sm">
+                <button
+                  onClick={() => pickDestination(favorite.address)}
+                  disabled={!userLocation || isSearching}
+                  className="flex items-center space-x-1 pl-3 pr-1 py-1 text-foreground/80 hover:text-foreground"
+                  title={favorite.address}
+                >
+                  <Star className="h-3 w-3 text-primary" />
+                  <span>{favorite.label}</span>
+                </button>
+                <button
+                  onClick={() => deleteFavorite(favorite)}
+                  className="pr-2 py-1 text-foreground/40 hover:text-foreground"
+                  aria-label={`Remove ${favorite.label}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {favoriteLabel === null ? (
+              <button
+                onClick={() => setFavoriteLabel(SUGGESTED_FAVORITE_LABELS.find(label => !favorites.some(favorite => favorite.label === label)) ?? '')}
+                disabled={!destination.trim()}
+                className="flex items-center space-x-1 text-sm text-primary hover:text-primary/80 font-medium disabled:opacity-50"
+                title="Save the address above as a favorite"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Favorite</span>
+              </button>
+            ) : (
+              <span className="inline-flex items-center space-x-2">
+                <input
+                  type="text"
+                  list="favorite-labels"
+                  value={favoriteLabel}
+                  onChange={(e) => setFavoriteLabel(e.target.value)}
+                  placeholder="Label, e.g. Home"
+                  className="input py-1 text-sm w-32"
+                />
+                <datalist id="favorite-labels">
+                  {SUGGESTED_FAVORITE_LABELS.map(label => <option key={label} value={label} />)}
+                </datalist>
+                <button onClick={saveFavorite} disabled={!favoriteLabel.trim()} className="text-sm text-primary font-medium disabled:opacity-50">
+                  Save
+                </button>
+                <button onClick={() => setFavoriteLabel(null)} className="text-foreground/50 hover:text-foreground" aria-label="Cancel">
+                  <X className="h-4 w-4" />
+                </button>
+              </span>
+            )}
+          </div>
+          {savedRoutes.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              {savedRoutes.map(savedRoute => (
+                <span key={savedRoute.id} className="inline-flex items-center rounded-full bg-muted/60 text-xs">
+                  <button
+                    onClick={() => pickDestination(savedRoute.destination)}
+                    disabled={!userLocation || isSearching}
+                    className="flex items-center space-x-1 pl-3 pr-1 py-1 text-foreground/80 hover:text-foreground"
+                  >
+                    <Bookmark className="h-3 w-3" />
+                    <span>{savedRoute.destination} via {savedRoute.route_name}</span>
+                  </button>
+                  <button
+                    onClick={() => deleteSavedRoute(savedRoute)}
+                    className="pr-2 py-1 text-foreground/40 hover:text-foreground"
+                    aria-label="Remove saved route"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Intermediate Stops */}
+      <div className="mb-4 sm:mb-6 space-y-2">
+        {stops.map((stop, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <div className="w-6 h-6 bg-primary/10 text-primary rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0">
+              {index + 1}
+            </div>
+            <input
+              type="text"
+              value={stop}
+              onChange={(e) => updateStop(index, e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Stop address..."
+              disabled={!userLocation || isSearching}
+              className="input py-2 text-sm flex-1"
+            />
+            <button
+              onClick={() => removeStop(index)}
+              disabled={isSearching}
+              className="p-2 text-foreground/50 hover:text-foreground transition-colors duration-200"
+              aria-label={`Remove stop ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <button
+            onClick={() => setStops(current => [...current, ''])}
+            disabled={!userLocation || isSearching || stops.length >= 25}
+            className="flex items-center space-x-1 text-sm text-primary hover:text-primary/80 font-medium transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add stop</span>
+          </button>
+          {stops.length > 1 && (
+            <label className="flex items-center space-x-2 text-sm text-foreground/70">
+              <input
+                type="checkbox"
+                checked={optimizeStops}
+                onChange={(e) => setOptimizeStops(e.target.checked)}
+                disabled={isSearching}
+              />
+              <span>Optimize stop order</span>
+            </label>
+          )}
+        </div>
+      </div>
+
+      {/* Trip Timing */}
+      <div className="mb-4 sm:mb-6 flex flex-wrap items-center gap-2">
+        <Clock className="h-4 w-4 text-foreground/50" />
+        <select
+          value={timingMode}
+          onChange={(e) => setTimingMode(e.target.value as 'now' | 'departAt' | 'arriveBy')}
+          disabled={isSearching}
+          className="input py-2 text-sm w-auto"
+        >
+          <option value="now">Leave now</option>
+          <option value="departAt">Depart at</option>
+          <option value="arriveBy">Arrive by</option>
+        </select>
+        {timingMode !== 'now' && (
+          <input
+            type="datetime-local"
+            value={tripTime}
+            onChange={(e) => setTripTime(e.target.value)}
+            disabled={isSearching}
+            className="input py-2 text-sm w-auto"
+          />
+        )}
+      </div>
+
+      {/* Route Preferences */}
+      <div className="mb-4 sm:mb-6">
+        <button
+          onClick={() => setShowPreferences(current => !current)}
+          className="flex items-center space-x-1 text-sm text-foreground/70 hover:text-foreground font-medium transition-colors duration-200"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          <span>Route preferences</span>
+        </button>
+        {showPreferences && (
+          <div className="mt-3 p-3 rounded-lg border border-border bg-muted/30 space-y-2">
+            {ROUTE_FACTORS.map(factor => (
+              <label key={factor} className="flex items-center justify-between gap-3 text-sm text-foreground/80">
+                <span className="w-32 flex-shrink-0">{FACTOR_LABELS[factor]}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_PREFERENCE_WEIGHT}
+                  step={1}
+                  value={routePreferences[factor]}
+                  onChange={(e) => updateRoutePreferences({ ...routePreferences, [factor]: Number(e.target.value) })}
+                  className="flex-1"
+                />
+                <span className="w-4 text-right text-xs text-foreground/60">{routePreferences[factor]}</span>
+              </label>
+            ))}
+            <label className="flex items-center space-x-2 text-sm text-foreground/80">
+              <input
+                type="checkbox"
+                checked={routePreferences.avoidHighways}
+                onChange={(e) => updateRoutePreferences({ ...routePreferences, avoidHighways: e.target.checked })}
+              />
+              <span>Avoid highways</span>
+            </label>
+            {!user && (
+              <p className="text-xs text-foreground/60">Sign in to keep these preferences.</p>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Location Warning */}
       {!userLocation && (
         <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
@@ -360,6 +674,16 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
         </div>
       )}
 
+      {/* Turn-by-turn Guidance */}
+      {guidedRoute && (
+        <GuidancePanel
+          key={guidedRoute.route.id}
+          route={guidedRoute.route}
+          request={guidedRoute.request}
+          onExit={() => setGuidedRoute(null)}
+        />
+      )}
+
       {/* Route Results */}
       {showResults && routes.length > 0 && (
         <div className="space-y-4">
@@ -438,6 +762,46 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
                   </div>
                 </div>
 
+                <div className="flex items-center space-x-1 mb-3 text-xs text-gray-600 dark:text-gray-300">
+                  <Clock className="h-3 w-3 text-gray-400" />
+                  <span>
+                    Leave {formatClockTime(route.departureTime)} · Arrive {formatClockTime(route.arrivalTime)}
+                  </span>
+                </div>
+
+                {route.score && route.score.reasons.length > 0 && (
+                  <p className="mb-3 text-xs text-gray-600 dark:text-gray-300">
+                    <span className="font-medium">{route.isRecommended ? 'Recommended: ' : 'Score: '}</span>
+                    {route.score.reasons.join(' · ')}
+                  </p>
+                )}
+
+                {route.hotspots && route.hotspots.length > 0 && (
+                  <div className="flex items-start space-x-1 mb-3 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Passes {route.hotspots.length} known hotspot{route.hotspots.length === 1 ? '' : 's'} at this hour
+                      {route.hotspotPenalty ? ` (~${route.hotspotPenalty} min extra)` : ''}: {route.hotspots.map(hotspot => hotspot.name).join(', ')}
+                    </span>
+                  </div>
+                )}
+
+                {/* Trip Legs */}
+                {route.legs && route.legs.length > 1 && (
+                  <div className="mb-3 space-y-1">
+                    {route.legs.map((leg, index) => (
+                      <div key={index} className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-300">
+                        <span className="truncate mr-2">
+                          {index + 1}. {leg.endAddress || route.stops?.[index] || destination}
+                        </span>
+                        <span className={`flex-shrink-0 px-2 py-0.5 rounded-full ${getTrafficColor(leg.trafficLevel)}`}>
+                          {leg.durationWithTraffic} min{leg.trafficDelay > 0 ? ` (+${leg.trafficDelay})` : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Time Comparison */}
                 <div className="mb-3">
                   <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
@@ -467,6 +831,24 @@ export const DestinationSearch: React.FC<DestinationSearchProps> = ({
                     <span>View Details</span>
                     <ExternalLink className="h-3 w-3" />
                   </button>
+                  {user && (
+                    <button
+                      onClick={() => saveRoute(route)}
+                      className="px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium transition-colors duration-200 flex items-center justify-center space-x-1"
+                    >
+                      <Bookmark className="h-4 w-4" />
+                      <span>Save</span>
+                    </button>
+                  )}
+                  {route.steps && route.steps.length > 0 && routeRequest && (
+                    <button
+                      onClick={() => setGuidedRoute({ route, request: routeRequest })}
+                      className="px-4 py-2 text-sm border border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors duration-200 font-medium flex items-center justify-center space-x-1"
+                    >
+                      <CornerUpRight className="h-4 w-4" />
+                      <span>Guide Me</span>
+                    </button>
+                  )}
                   <button 
                     onClick={() => startNavigation(route)}
                     className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors duration-200 font-medium flex items-center justify-center space-x-1"
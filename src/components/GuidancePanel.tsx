@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Navigation, AlertTriangle, CheckCircle, Loader, X } from 'lucide-react';
+import { RouteService, RouteRequest, RouteResult } from '../services/routeService';
+import { GuidanceSession, GuidanceState } from '../services/guidanceService';
+import { TripRecorder } from '../services/tripRecorder';
+import { TrafficDataStorageService } from '../services/trafficDataStorage';
+import type { TripRecord } from '../types/trafficStorage';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { useAuth } from '../contexts/AuthContext';
+
+interface GuidancePanelProps {
+  route: RouteResult;
+  request: RouteRequest; // the search the route came from
+  onExit: () => void;
+}
+
+// Don't request a new route more often than this while off-route
+const REROUTE_INTERVAL_MS = 30 * 1000;
+
+const formatManeuverDistance = (meters: number) => {
+  const miles = meters / 1609.34;
+  return miles < 0.1 ? `${Math.round(meters * 3.28084 / 10) * 10} ft` : `${miles.toFixed(1)} mi`;
+};
+
+/**
+ * Stops not yet reached, found from the leg that contains the current step
+ */
+const remainingStops = (route: RouteResult, stepIndex: number): string[] => {
+  if (!route.stops || !route.legs) return [];
+
+  let stepsBefore = 0;
+  const legIndex = route.legs.findIndex(leg => {
+    stepsBefore += leg.stepCount;
+    return stepIndex < stepsBefore;
+  });
+  return legIndex === -1 ? [] : route.stops.slice(legIndex);
+};
+
+export const GuidancePanel: React.FC<GuidancePanelProps> = ({ route, request, onExit }) => {
+  const { destination } = request;
+  const { position, error: locationError } = useGeolocation({ watch: true });
+  const { user, routePreferences } = useAuth();
+  const [activeRoute, setActiveRoute] = useState(route);
+  const [guidance, setGuidance] = useState<GuidanceState | null>(null);
+  const [isRerouting, setIsRerouting] = useState(false);
+  const [rerouteError, setRerouteError] = useState<string | null>(null);
+  const [recorder] = useState(() => new TripRecorder(route, destination, user?.id));
+  const [trip, setTrip] = useState<TripRecord | null>(null);
+  const lastRerouteAt = useRef(0);
+  // The effect below also re-runs on state changes; each fix must reach the session only once
+  const lastFix = useRef<{ session: GuidanceSession; timestamp: number } | null>(null);
+
+  const session = useMemo(() => {
+    try {
+      return new GuidanceSession(activeRoute);
+    } catch {
+      return null;
+    }
+  }, [activeRoute]);
+
+  useEffect(() => {
+    if (position) recorder.record(position);
+  }, [position, recorder]);
+
+  // The original route's prediction is what the trip is measured against, even after reroutes
+  useEffect(() => {
+    if (!guidance?.hasArrived || trip) return;
+
+    const record = recorder.finish();
+    setTrip(record);
+    TrafficDataStorageService.getInstance().storeTrip(record).catch(error => {
+      console.warn('Failed to store trip:', error);
+    });
+  }, [guidance?.hasArrived, trip, recorder]);
+
+  useEffect(() => {
+    if (!position || !session || trip) return;
+    if (lastFix.current?.session === session && position.timestamp <= lastFix.current.timestamp) return;
+    lastFix.current = { session, timestamp: position.timestamp };
+
+    const state = session.update(position);
+    setGuidance(state);
+
+    if (!state.isOffRoute || state.hasArrived || isRerouting) return;
+    if (Date.now() - lastRerouteAt.current < REROUTE_INTERVAL_MS) return;
+
+    lastRerouteAt.current = Date.now();
+    setIsRerouting(true);
+    setRerouteError(null);
+    console.log(`🧭 Off route by ${Math.round(state.offRouteMeters)} m, rerouting`);
+
+    // Same mode and options as the original search, leaving now with the stops still ahead in order
+    RouteService.calculateRoutes({
+      ...request,
+      origin: { lat: position.lat, lng: position.lng },
+      waypoints: remainingStops(activeRoute, state.stepIndex),
+      optimizeWaypoints: false,
+      departAt: undefined,
+      arriveBy: undefined,
+      preferences: routePreferences
+    })
+      .then(response => {
+        const nextRoute = response.routes.find(candidate => candidate.isRecommended) || response.routes[0];
+        if (response.status !== 'success' || !nextRoute) {
+          setRerouteError(response.message || 'Could not find a new route');
+          return;
+        }
+        recorder.recordReroute();
+        setGuidance(null);
+        setActiveRoute(nextRoute);
+      })
+      .catch(error => {
+        console.error('Rerouting failed:', error);
+        setRerouteError('Network error while rerouting');
+      })
+      .finally(() => setIsRerouting(false));
+  }, [position, session, trip, isRerouting, activeRoute, request, routePreferences, recorder]);
+
+  const instruction = guidance?.nextStep?.instruction || 'Arrive at your destination';
+
+  return (
+    <div className="mb-4 sm:mb-6 p-4 border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Navigation className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+          <span className="text-sm font-medium text-gray-900 dark:text-white">
+            Guiding to {destination} via {activeRoute.name}
+          </span>
+        </div>
+        <button
+          onClick={onExit}
+          className="p-1 text-foreground/50 hover:text-foreground transition-colors duration-200"
+          aria-label="End guidance"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {!session ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          This route has no turn-by-turn steps. Use Start Navigation to open it in a maps app.
+        </p>
+      ) : guidance?.hasArrived ? (
+        <>
+          <div className="flex items-center space-x-2 text-green-700 dark:text-green-400">
+            <CheckCircle className="h-5 w-5" />
+            <span className="text-base font-medium">You have arrived</span>
+          </div>
+          {trip && (
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+              Trip took {Math.round(trip.actualDuration / 60)} min; predicted {Math.round(trip.predictedDuration / 60)} min
+            </p>
+          )}
+        </>
+      ) : guidance ? (
+        <>
+          <div className="flex items-baseline space-x-3">
+            <span className="text-2xl font-bold text-gray-900 dark:text-white">
+              {formatManeuverDistance(guidance.distanceToManeuverMeters)}
+            </span>
+            <span className="text-base font-medium text-gray-900 dark:text-white">{instruction}</span>
+          </div>
+          <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+            Now: {guidance.currentStep.instruction} · Step {guidance.stepIndex + 1} of {activeRoute.steps?.length}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {locationError || 'Waiting for your position...'}
+        </p>
+      )}
+
+      {isRerouting && (
+        <div className="flex items-center space-x-2 mt-3 text-sm text-blue-700 dark:text-blue-300">
+          <Loader className="h-4 w-4 animate-spin" />
+          <span>Off route, finding a new route...</span>
+        </div>
+      )}
+
+      {!isRerouting && guidance?.isOffRoute && (
+        <div className="flex items-center space-x-2 mt-3 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{rerouteError || `Off route by ${Math.round(guidance.offRouteMeters)} m`}</span>
+        </div>
+      )}
+    </div>
+  );
+};
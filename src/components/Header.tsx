@@ -96,7 +96,7 @@ export const Header: React.FC<HeaderProps> = ({ userLocation, lastUpdated }) =>
                   <User className="h-4 w-4 sm:h-5 sm:w-5" />
                   {user && (
                     <span className="hidden sm:inline text-sm font-medium text-gray-700 dark:text-gray-300">
-                      {user.email?.split('@')[0]}
+                      {user.name || user.email?.split('@')[0]}
                     </span>
                   )}
                 </button>
@@ -104,8 +104,8 @@ export const Header: React.FC<HeaderProps> = ({ userLocation, lastUpdated }) =>
                 {showUserMenu && user && (
                   <div className="absolute right-0 mt-2 w-48 bg-surface rounded-lg shadow-lg border border-border py-1 z-50">
                     <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700">
-                      <p className="text-sm font-medium text-foreground truncate">
-                        {user.email}
+                      <p className="text-sm font-medium text-foreground truncate" title={user.address}>
+                        {user.email || user.address}
                       </p>
                     </div>
                     <button
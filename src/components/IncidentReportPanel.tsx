@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ThumbsUp, ThumbsDown, Upload, Loader, Plus, X } from 'lucide-react';
+import { IncidentReportService } from '../services/incidentReportService';
+import { ZeroGStorageService } from '../services/0gStorageService';
+import { MAX_NOTE_LENGTH, REPORT_TYPES, ReportType, ReportVote, PublicIncidentReport } from '../services/incidentReports';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { useAuth } from '../contexts/AuthContext';
+
+const REPORT_LABELS: Record<ReportType, string> = {
+  accident: 'Accident',
+  breakdown: 'Breakdown',
+  roadworks: 'Roadworks',
+  closure: 'Road closed',
+  congestion: 'Heavy traffic',
+  hazard: 'Hazard',
+  weather: 'Weather',
+  event: 'Event'
+};
+
+const formatAge = (createdAt: string) => {
+  const minutes = Math.round((Date.now() - Date.parse(createdAt)) / 60000);
+  return minutes < 60 ? `${minutes} min ago` : `${Math.floor(minutes / 60)} h ago`;
+};
+
+export const IncidentReportPanel: React.FC = () => {
+  const [isReporting, setIsReporting] = useState(false);
+  // Follow the device only while a report is being written, so it's placed where the user is now
+  const { location, position } = useGeolocation({ watch: isReporting });
+  const { user } = useAuth();
+  const [reports, setReports] = useState<PublicIncidentReport[]>([]);
+  const [type, setType] = useState<ReportType | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [archiveHash, setArchiveHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentLocation = position ? { lat: position.lat, lng: position.lng } : location;
+
+  // Watch mode moves location on every fix; only reload reports once the user has moved ~100 m
+  const areaKey = location ? `${location.lat.toFixed(3)},${location.lng.toFixed(3)}` : null;
+
+  const loadReports = useCallback(async () => {
+    if (!areaKey) return;
+    const [lat, lng] = areaKey.split(',').map(Number);
+    try {
+      setReports(await IncidentReportService.getReports({ lat, lng }));
+    } catch (loadError) {
+      console.error('Failed to load incident reports:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load reports');
+    }
+  }, [areaKey]);
+
+  // Also reloaded when the user signs in or out, so `mine` matches who is looking
+  useEffect(() => {
+    loadReports();
+  }, [loadReports, user?.id]);
+
+  const submitReport = async () => {
+    if (!type || !position) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await IncidentReportService.submitReport({
+        type,
+        location: { lat: position.lat, lng: position.lng },
+        note: note.trim() || undefined
+      });
+      setIsReporting(false);
+      setType(null);
+      setNote('');
+      await loadReports();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to submit report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const vote = async (report: PublicIncidentReport, choice: ReportVote) => {
+    if (!currentLocation) return;
+
+    setError(null);
+    try {
+      const updated = await IncidentReportService.vote(report.id, { vote: choice, location: currentLocation });
+      setReports(current => current.map(entry => (entry.id === updated.id ? updated : entry)));
+    } catch (voteError) {
+      setError(voteError instanceof Error ? voteError.message : 'Failed to record vote');
+    }
+  };
+
+  const archiveReports = async () => {
+    setIsArchiving(true);
+    setError(null);
+    try {
+      const result = await ZeroGStorageService.saveIncidentReports(reports);
+      setArchiveHash(result.rootHash);
+    } catch (archiveError) {
+      setError(archiveError instanceof Error ? archiveError.message : 'Failed to archive reports');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <div className="card p-4 sm:p-6 rounded-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <AlertTriangle className="h-5 w-5 text-warning" />
+          <h2 className="section-title">Road Reports</h2>
+        </div>
+        {user && (
+          <button
+            onClick={() => setIsReporting(!isReporting)}
+            className="btn-ghost flex items-center space-x-1 text-sm"
+          >
+            {isReporting ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            <span>{isReporting ? 'Cancel' : 'Report'}</span>
+          </button>
+        )}
+      </div>
+
+      {!user && (
+        <p className="mb-3 text-xs text-foreground/60">Sign in to report what you see or vote on reports.</p>
+      )}
+
+      {user && isReporting && (
+        <div className="mb-4 p-3 rounded-xl border border-border bg-muted/40">
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {REPORT_TYPES.map(reportType => (
+              <button
+                key={reportType}
+                onClick={() => setType(reportType)}
+                className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition-colors duration-200 ${
+                  type === reportType ? 'bg-primary text-white border-primary' : 'border-border text-foreground/80 hover:bg-muted'
+                }`}
+              >
+                {REPORT_LABELS[reportType]}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            maxLength={MAX_NOTE_LENGTH}
+            placeholder="Note (optional)"
+            className="w-full mb-3 px-3 py-2 text-sm rounded-lg border border-border bg-surface"
+          />
+          <button
+            onClick={submitReport}
+            disabled={!type || !position || isSubmitting}
+            className="btn-primary w-full text-sm disabled:opacity-50"
+          >
+            {isSubmitting ? 'Sending...' : position ? 'Send report' : 'Waiting for your position...'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-xs text-danger">{error}</p>}
+
+      {reports.length === 0 ? (
+        <p className="text-sm text-foreground/60">No reports near you.</p>
+      ) : (
+        <div className="space-y-3">
+          {reports.map(report => (
+            <div key={report.id} className="p-3 rounded-xl border border-border">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">{REPORT_LABELS[report.type]}</span>
+                <span className={`text-xs ${report.status === 'confirmed' ? 'text-success' : 'text-foreground/60'}`}>
+                  {report.status === 'confirmed' ? 'Confirmed' : 'Unconfirmed'} · {report.confidence}%
+                </span>
+              </div>
+              {report.note && <p className="mt-1 text-xs text-foreground/80">{report.note}</p>}
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-foreground/50">
+                  {formatAge(report.createdAt)} · {report.confirmations} confirmed, {report.dismissals} dismissed
+                </span>
+                {user && !report.mine && (
+                  <div className="flex items-center space-x-2">
+                    <button onClick={() => vote(report, 'confirm')} className="p-1 text-foreground/60 hover:text-success" aria-label="Still there">
+                      <ThumbsUp className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => vote(report, 'dismiss')} className="p-1 text-foreground/60 hover:text-danger" aria-label="Not there anymore">
+                      <ThumbsDown className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={archiveReports}
+            disabled={isArchiving}
+            className="btn-ghost w-full flex items-center justify-center space-x-2 text-sm disabled:opacity-50"
+          >
+            {isArchiving ? <Loader className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            <span>Archive to 0G Storage</span>
+          </button>
+          {archiveHash && (
+            <p className="text-xs text-foreground/60 break-all">Archived: {archiveHash}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Area, AreaChart } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Area, AreaChart, ReferenceDot } from 'recharts';
 import { TrendingUp, Brain, Clock, AlertCircle, Zap, Target, MapPin } from 'lucide-react';
-import { TrafficService } from '../services/trafficService';
+import { TrafficService, TrafficPrediction } from '../services/trafficService';
+import { RouteService, DepartureSweepResponse } from '../services/routeService';
 import { useGeolocation } from '../hooks/useGeolocation';
 
+// Departure sweep: next two hours in 15-minute steps (9 directions requests)
+const SWEEP_WINDOW_MINUTES = 120;
+const SWEEP_STEP_MINUTES = 15;
+const SWEEP_COLORS = ['#8B5CF6', '#3B82F6', '#10B981', '#F59E0B'];
+
+interface PredictionChartProps {
+  destination?: string;
+}
+
 interface PredictionData {
   time: string;
   current: number;
   predicted: number;
-  historical: number;
+  historical: number | null;
+  range: [number, number];
 }
 
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -23,7 +34,9 @@ const CustomTooltip = ({ active, payload, label }: any) => {
               style={{ backgroundColor: entry.color }}
             ></div>
             <span className="text-foreground/80">
-              {entry.name}: <span className="font-medium">{entry.value}%</span>
+              {entry.name}: <span className="font-medium">
+                {Array.isArray(entry.value) ? `${entry.value[0]}–${entry.value[1]}` : entry.value}%
+              </span>
             </span>
           </div>
         ))}
@@ -33,12 +46,17 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const PredictionChart: React.FC = () => {
+const formatSweepTime = (isoTime: string) =>
+  new Date(isoTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+export const PredictionChart: React.FC<PredictionChartProps> = ({ destination }) => {
   const { location: userLocation } = useGeolocation();
+  const [sweep, setSweep] = useState<DepartureSweepResponse | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isAutoRefreshing, setIsAutoRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [predictions, setPredictions] = useState<any | null>(null);
+  const [predictions, setPredictions] = useState<TrafficPrediction | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
   const fetchPredictions = async (isManualRefresh: boolean = false) => {
@@ -64,7 +82,7 @@ export const PredictionChart: React.FC = () => {
       console.log('Received prediction data:', predictionData);
       
       // Only use predictions if they have real data
-      if (predictionData.predictions.length > 0 && predictionData.accuracy > 0) {
+      if (predictionData.predictions.length > 0) {
         console.log('Using REAL traffic predictions');
         setPredictions(predictionData);
         setLastUpdated(new Date());
@@ -89,6 +107,8 @@ export const PredictionChart: React.FC = () => {
   };
 
   useEffect(() => {
+    if (destination) return;
+
     // Initial fetch (show loading for first load)
     fetchPredictions(true);
     
@@ -96,7 +116,33 @@ export const PredictionChart: React.FC = () => {
     const interval = setInterval(() => fetchPredictions(false), 10 * 60 * 1000);
     
     return () => clearInterval(interval);
-  }, [userLocation]);
+  }, [userLocation, destination]);
+
+  useEffect(() => {
+    if (!destination || !userLocation) {
+      setSweep(null);
+      return;
+    }
+
+    let cancelled = false;
+    const start = new Date();
+    setIsSweeping(true);
+    RouteService.sweepDepartureTimes(
+      { origin: userLocation, destination, travelMode: 'driving' },
+      { start, end: new Date(start.getTime() + SWEEP_WINDOW_MINUTES * 60 * 1000) },
+      SWEEP_STEP_MINUTES
+    )
+      .then(result => {
+        if (!cancelled) setSweep(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSweeping(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [destination, userLocation]);
 
   // Manual refresh function for predictions
   const refreshPredictions = async () => {
@@ -107,19 +153,13 @@ export const PredictionChart: React.FC = () => {
 
   // Convert prediction data to chart format only if we have real predictions
   const chartData: PredictionData[] = predictions ? (() => {
-    const currentHour = new Date().getHours();
-    return predictions.predictions.map((pred: any, index: number) => {
-      const hour = (currentHour + index) % 24;
-      // Generate historical baseline (typically 10-20% lower than predictions)
-      const historical = Math.max(5, pred.congestionLevel - (10 + Math.random() * 10));
-      
-      return {
-        time: pred.time,
-        current: index === 0 ? pred.congestionLevel : 0, // Only show current for first hour
-        predicted: pred.congestionLevel,
-        historical: Math.round(historical)
-      };
-    });
+    return predictions.predictions.map((pred, index) => ({
+      time: pred.time,
+      current: index === 0 ? pred.congestionLevel : 0, // Only show current for first hour
+      predicted: pred.congestionLevel,
+      historical: pred.baseline,
+      range: [pred.lower, pred.upper]
+    }));
   })() : [];
 
   // Calculate key metrics from real data
@@ -132,7 +172,7 @@ export const PredictionChart: React.FC = () => {
   const riskLevel = nextHourPrediction > 70 ? 'High' : nextHourPrediction > 40 ? 'Med' : 'Low';
   
   // Get accuracy and factors from predictions object
-  const accuracy = predictions?.accuracy || 0;
+  const accuracy = predictions?.accuracy ?? null;
   const factors = predictions?.factors || { weather: 0, events: 0, historical: 0, realTime: 0 };
 
   if (!userLocation) {
@@ -153,6 +193,112 @@ export const PredictionChart: React.FC = () => {
     );
   }
 
+  if (destination) {
+    const sweepData = sweep?.status === 'success'
+      ? sweep.departureTimes.map(departureTime => {
+          const point: Record<string, string | number> = { time: formatSweepTime(departureTime) };
+          sweep.series.forEach(entry => {
+            const sample = entry.samples.find(s => s.departureTime === departureTime);
+            if (sample) point[entry.routeName] = sample.durationWithTraffic;
+          });
+          return point;
+        })
+      : [];
+
+    return (
+      <div className="card p-4 sm:p-6 rounded-2xl transition-all duration-300 hover:shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="section-title flex items-center">
+              <Clock className="mr-2 h-5 w-5 text-primary" />
+              Best Time to Leave
+            </h2>
+            <p className="text-xs text-foreground/60 truncate">To {destination}, next {SWEEP_WINDOW_MINUTES / 60} hours</p>
+          </div>
+          {sweep?.best && (
+            <div className="flex items-center space-x-2 bg-success/10 rounded-full px-3 py-1">
+              <Target className="h-4 w-4 text-success" />
+              <span className="text-sm font-medium text-success/90">
+                {formatSweepTime(sweep.best.departureTime)} · {sweep.best.durationWithTraffic} min
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="h-64 sm:h-80 bg-surface rounded-xl p-4 border border-border">
+          {isSweeping ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="flex flex-col items-center space-y-3">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+                <span className="text-sm text-foreground/60">Checking departure times...</span>
+              </div>
+            </div>
+          ) : sweepData.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <AlertCircle className="h-8 w-8 text-foreground/50 mx-auto mb-2" />
+                <span className="text-sm text-foreground/60">
+                  {sweep?.message || 'No departure-time predictions available for this destination'}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={sweepData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="currentColor" className="opacity-20 text-foreground/30" />
+                <XAxis dataKey="time" tick={{ fontSize: 10 }} stroke="currentColor" className="text-foreground/60" />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  stroke="currentColor"
+                  className="text-foreground/60"
+                  label={{ value: 'Minutes', angle: -90, position: 'insideLeft', style: { fontSize: '10px' } }}
+                />
+                <Tooltip formatter={(value: number) => `${value} min`} />
+                {sweep?.series.map((entry, index) => (
+                  <Line
+                    key={entry.routeName}
+                    type="monotone"
+                    dataKey={entry.routeName}
+                    stroke={SWEEP_COLORS[index % SWEEP_COLORS.length]}
+                    strokeWidth={entry.routeName === sweep.best?.routeName ? 3 : 2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+                {sweep?.series.map((entry, index) => entry.minimum && (
+                  <ReferenceDot
+                    key={`${entry.routeName}-min`}
+                    x={formatSweepTime(entry.minimum.departureTime)}
+                    y={entry.minimum.durationWithTraffic}
+                    r={5}
+                    fill={SWEEP_COLORS[index % SWEEP_COLORS.length]}
+                    stroke="none"
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        {sweep?.status === 'success' && sweep.series.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-border grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {sweep.series.map((entry, index) => entry.minimum && (
+              <div key={entry.routeName} className="flex items-center justify-between text-xs text-foreground/70">
+                <span className="flex items-center truncate mr-2">
+                  <span className="w-2 h-2 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: SWEEP_COLORS[index % SWEEP_COLORS.length] }}></span>
+                  <span className="truncate">{entry.routeName}</span>
+                </span>
+                <span className="flex-shrink-0">
+                  Leave {formatSweepTime(entry.minimum.departureTime)} · {entry.minimum.durationWithTraffic} min
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Only show full loading screen for initial load (when no predictions exist yet)
   if (isLoading && !predictions) {
     return (
@@ -214,7 +360,7 @@ export const PredictionChart: React.FC = () => {
         <div className="flex items-center space-x-2 bg-success/10 rounded-full px-3 py-1">
           <Target className="h-4 w-4 text-success" />
           <span className="text-sm font-medium text-success/90">
-            {accuracy > 0 ? `${Math.round(accuracy)}% Accuracy` : (isLoading && !predictions) ? 'Calculating...' : 'Live Data'}
+            {accuracy !== null ? `${Math.round(accuracy)}% Accuracy` : (isLoading && !predictions) ? 'Calculating...' : 'Live Data'}
           </span>
         </div>
       </div>
@@ -341,6 +487,14 @@ export const PredictionChart: React.FC = () => {
                 label={{ value: 'Congestion %', angle: -90, position: 'insideLeft', style: { fontSize: '10px' } }}
               />
               <Tooltip content={<CustomTooltip />} />
+              <Area
+                type="monotone"
+                dataKey="range"
+                stroke="none"
+                fill="#8B5CF6"
+                fillOpacity={0.12}
+                name="80% Range"
+              />
               <Area
                 type="monotone"
                 dataKey="historical"
@@ -1,41 +1,82 @@
 /**
  * Storage Viewer Component
- * View all data stored on 0G Storage
+ * View the signed-in user's data on 0G Storage, or totals across users for admins
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect } from 'react';
 import { Database, Download, FileText, Package, RefreshCw, Save, MapPin } from 'lucide-react';
 import { TrafficDataStorageService } from '../services/trafficDataStorage';
+import { AuthService } from '../services/authService';
+import type { StorageMetadata, StorageMetadataPage } from '../services/storageMetadata';
+import { useAuth } from '../contexts/AuthContext';
 
 // Use VITE_API_URL if set, otherwise default to relative paths (for production)
 const API_URL = import.meta.env.VITE_API_URL || '';
 
+const DATA_TYPES: StorageMetadata['dataType'][] = ['traffic_conditions', 'route_data', 'ai_insights', 'incident_reports'];
+
+const fetchJson = async (path: string) => {
+  const response = await AuthService.authorizedFetch(`${API_URL}${path}`);
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(text || `metadata request failed (status=${response.status})`);
+  }
+  return response.json();
+};
+
+const metadataPath = (dataType: string, cursor?: string) => {
+  const params = new URLSearchParams();
+  if (dataType) params.set('dataType', dataType);
+  if (cursor) params.set('cursor', cursor);
+  return `/api/storage/metadata?${params}`;
+};
+
 export const StorageViewer: React.FC<{ embedded?: boolean }> = ({ embedded = false }) => {
   const [storageData, setStorageData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [backupStatus, setBackupStatus] = useState<string | null>(null);
+  // Admins can switch from their own uploads to totals across all users
+  const [showAllUsers, setShowAllUsers] = useState(false);
+  const [dataType, setDataType] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user?.admin) setShowAllUsers(false);
+  }, [user]);
+
+  const loadStorageData = useCallback(async () => {
+    if (!user) {
+      setStorageData(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await fetchJson(showAllUsers ? '/api/storage/admin/stats' : metadataPath(dataType));
+      setStorageData(data);
+    } catch (error) {
+      console.error('Failed to load storage metadata:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, showAllUsers, dataType]);
 
   useEffect(() => {
     loadStorageData();
     // Refresh every 30 seconds
     const interval = setInterval(loadStorageData, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [loadStorageData]);
 
-  const loadStorageData = async () => {
+  const loadMore = async () => {
+    if (!storageData?.nextCursor) return;
     setIsLoading(true);
     try {
-      const url = `${API_URL}/api/storage/metadata`;
-      const response = await fetch(url);
-      if (!response.ok) {
-        const text = await response.text().catch(() => '');
-        throw new Error(text || `metadata request failed (status=${response.status})`);
-      }
-      const data = await response.json();
-      setStorageData(data);
+      const page = await fetchJson(metadataPath(dataType, storageData.nextCursor));
+      setStorageData({ ...page, metadata: [...storageData.metadata, ...page.metadata] });
     } catch (error) {
-      console.error('Failed to load storage metadata:', error);
+      console.error('Failed to load more storage metadata:', error);
     } finally {
       setIsLoading(false);
     }
@@ -64,14 +105,21 @@ export const StorageViewer: React.FC<{ embedded?: boolean }> = ({ embedded = fal
 
   const handleExportAll = async () => {
     try {
-      const response = await fetch(`${API_URL}/api/storage/export`);
-      const data = await response.json();
+      const metadata: StorageMetadata[] = [];
+      let cursor: string | null = null;
+      do {
+        const params = new URLSearchParams(cursor ? { cursor } : {});
+        const page: StorageMetadataPage = await fetchJson(`/api/storage/export?${params}`);
+        metadata.push(...page.metadata);
+        cursor = page.nextCursor;
+      } while (cursor);
 
+      const data = { metadata, totalFiles: metadata.length };
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `0g-storage-all-users-${Date.now()}.json`;
+      a.download = `0g-storage-${Date.now()}.json`;
       a.click();
     } catch (error) {
       console.error('Export failed:', error);
@@ -115,6 +163,27 @@ export const StorageViewer: React.FC<{ embedded?: boolean }> = ({ embedded = fal
           <h2 className="section-title">0G storage</h2>
         </div>
         <div className="flex items-center space-x-2">
+          {!showAllUsers && (
+            <select
+              value={dataType}
+              onChange={(e) => setDataType(e.target.value)}
+              className="px-2 py-1.5 rounded-lg text-sm border border-border bg-surface"
+            >
+              <option value="">All types</option>
+              {DATA_TYPES.map(type => <option key={type} value={type}>{type.replace('_', ' ')}</option>)}
+            </select>
+          )}
+          {user?.admin && (
+            <button
+              onClick={() => setShowAllUsers(!showAllUsers)}
+              className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                showAllUsers ? 'bg-primary text-white border-primary' : 'border-border hover:bg-primary/10'
+              }`}
+              title="Show totals and latest uploads across all users"
+            >
+              All users
+            </button>
+          )}
           <button
             onClick={loadStorageData}
             disabled={isLoading}
@@ -137,7 +206,7 @@ export const StorageViewer: React.FC<{ embedded?: boolean }> = ({ embedded = fal
             className="flex items-center space-x-2 px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/90"
           >
             <Package className="h-4 w-4" />
-            <span>Export All</span>
+            <span>Export</span>
           </button>
         </div>
       </div>
@@ -204,6 +273,16 @@ export const StorageViewer: React.FC<{ embedded?: boolean }> = ({ embedded = fal
         ))}
       </div>
 
+      {storageData.nextCursor && (
+        <button
+          onClick={loadMore}
+          disabled={isLoading}
+          className="mt-3 w-full text-sm text-primary hover:text-primary/80 font-medium disabled:opacity-50"
+        >
+          Load more
+        </button>
+      )}
+
       {storageData.totalFiles === 0 && (
         <div className="text-center py-8 text-foreground/60">
           <Database className="h-12 w-12 mx-auto mb-4 opacity-30" />
@@ -13,6 +13,7 @@ import {
 } from 'lucide-react';
 import { ZeroGComputeService } from '../services/0gComputeService';
 import { useGeolocation } from '../hooks/useGeolocation';
+import type { PredictionEvaluation } from '../services/predictionEvaluation';
 
 interface TrafficAnalyticsProps {
   className?: string;
@@ -22,6 +23,7 @@ export const TrafficAnalytics: React.FC<TrafficAnalyticsProps> = ({ className =
   const { location: userLocation } = useGeolocation();
   const [analytics, setAnalytics] = useState<any>(null);
   const [hotspots, setHotspots] = useState<any[]>([]);
+  const [evaluation, setEvaluation] = useState<PredictionEvaluation | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedTimeframe, setSelectedTimeframe] = useState<'week' | 'month' | 'all'>('week');
@@ -42,6 +44,7 @@ export const TrafficAnalytics: React.FC<TrafficAnalyticsProps> = ({ className =
       // Load traffic analytics
       const analyticsData = await ZeroGComputeService.getTrafficAnalytics(userLocation);
       setAnalytics(analyticsData);
+      setEvaluation(ZeroGComputeService.getPredictionEvaluation());
 
       // Load nearby hotspots
       const hotspotsData = await ZeroGComputeService.getNearbyHotspots(userLocation, 10);
@@ -178,6 +181,75 @@ export const TrafficAnalytics: React.FC<TrafficAnalyticsProps> = ({ className =
             </div>
           </div>
 
+          {/* Prediction Accuracy: forecasts scored against later observations, and recorded trips */}
+          {((evaluation?.evaluated ?? 0) > 0 || analytics.predictionAccuracy?.trips > 0) && (
+            <div className="rounded-lg p-3 border border-border bg-primary/10">
+              <div className="flex items-center space-x-2 mb-2">
+                <Target className="h-4 w-4 text-primary" />
+                <h3 className="text-sm font-semibold text-primary">Prediction Accuracy</h3>
+              </div>
+              {evaluation && evaluation.evaluated > 0 && (
+                <div className="mb-3">
+                  <div className="grid grid-cols-3 gap-2 mb-2 text-center">
+                    <div>
+                      <p className="text-lg font-bold text-primary">{evaluation.severityAccuracy}%</p>
+                      <p className="text-xs text-foreground/60">Severity correct</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-primary">{evaluation.congestionMae}</p>
+                      <p className="text-xs text-foreground/60">Congestion MAE</p>
+                    </div>
+                    <div>
+                      <p className="text-lg font-bold text-primary">{evaluation.congestionRmse}</p>
+                      <p className="text-xs text-foreground/60">Congestion RMSE</p>
+                    </div>
+                  </div>
+                  <table className="w-full text-xs text-foreground/80">
+                    <thead>
+                      <tr>
+                        <th className="text-left font-medium text-foreground/60">Predicted ↓ / Observed →</th>
+                        {evaluation.severities.map(severity => (
+                          <th key={severity} className="font-medium text-foreground/60 capitalize">{severity}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {evaluation.confusionMatrix.map((row, predictedIndex) => (
+                        <tr key={evaluation.severities[predictedIndex]}>
+                          <td className="capitalize">{evaluation.severities[predictedIndex]}</td>
+                          {row.map((count, observedIndex) => (
+                            <td
+                              key={observedIndex}
+                              className={`text-center ${predictedIndex === observedIndex ? 'font-bold text-primary' : ''}`}
+                            >
+                              {count}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-foreground/60 mt-2">
+                    {evaluation.evaluated} predictions scored, {evaluation.pending} waiting for their time window, {evaluation.unmatched} with no observation nearby
+                  </p>
+                </div>
+              )}
+              {analytics.predictionAccuracy?.trips > 0 && (
+                <>
+                  <p className="text-sm text-foreground/80">
+                    Travel times off by {analytics.predictionAccuracy.meanAbsoluteErrorMinutes} min on average
+                    ({analytics.predictionAccuracy.meanAbsolutePercentError}%) across {analytics.predictionAccuracy.trips} recorded trip{analytics.predictionAccuracy.trips === 1 ? '' : 's'}
+                  </p>
+                  <p className="text-xs text-foreground/60 mt-1">
+                    {analytics.predictionAccuracy.meanErrorMinutes > 0
+                      ? `Trips ran ${analytics.predictionAccuracy.meanErrorMinutes} min longer than predicted`
+                      : `Trips ran ${Math.abs(analytics.predictionAccuracy.meanErrorMinutes)} min shorter than predicted`}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Peak Traffic Hours */}
           {analytics.peakTrafficHours.length > 0 && (
             <div className="rounded-lg p-3 border border-border bg-primary/10">
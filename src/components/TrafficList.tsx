@@ -87,18 +87,25 @@ export const TrafficList: React.FC<TrafficListProps> = ({ trafficData }) => {
                   </span>
                 </div>
 
+                {traffic.cause && (
+                  <div className="flex items-start space-x-2 mb-3">
+                    <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 text-warning flex-shrink-0 mt-0.5" />
+                    <span className="text-xs sm:text-sm text-foreground/80">{traffic.cause}</span>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-3 text-xs text-foreground/80">
                   <div className="flex items-center space-x-2 bg-primary/10 rounded-lg p-2">
                     <Clock className="h-3 w-3 flex-shrink-0 text-primary" />
                     <div>
-                      <div className="font-medium text-primary/90">{traffic.duration}min</div>
+                      <div className="font-medium text-primary/90">{traffic.duration === null ? '—' : `${traffic.duration}min`}</div>
                       <div className="text-xs opacity-75">Duration</div>
                     </div>
                   </div>
                   <div className="flex items-center space-x-2 bg-success/10 rounded-lg p-2">
                     <TrendingUp className="h-3 w-3 flex-shrink-0 text-success" />
                     <div>
-                      <div className="font-medium text-success/90">{traffic.speed} mph</div>
+                      <div className="font-medium text-success/90">{traffic.speed === null ? '—' : `${traffic.speed} mph`}</div>
                       <div className="text-xs opacity-75">Speed</div>
                     </div>
                   </div>
@@ -1,13 +1,89 @@
-import React from 'react';
-import { MapPin, Navigation, AlertTriangle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Navigation, Plus, Minus, Maximize2 } from 'lucide-react';
 import { TrafficData } from '../types';
+import { RouteResult } from '../services/routeService';
+import { decodePolyline } from '../services/geo';
+import type { LatLng } from '../services/routingProvider';
 
 interface TrafficMapProps {
   trafficData: TrafficData[];
   userLocation: { lat: number; lng: number } | null;
+  routes?: RouteResult[];
+  selectedRouteId?: string | null;
+  onSelectRoute?: (routeId: string) => void;
 }
 
-export const TrafficMap: React.FC<TrafficMapProps> = ({ trafficData, userLocation }) => {
+interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+const TILE_SIZE = 256;
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION || '© OpenStreetMap contributors';
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 18;
+const FIT_MAX_ZOOM = 15;
+const FIT_PADDING = 40;
+
+const ROUTE_COLORS: Record<RouteResult['trafficLevel'], string> = {
+  low: '#10B981',
+  moderate: '#F59E0B',
+  high: '#F87171',
+  severe: '#EF4444'
+};
+
+// Web Mercator projection to world pixel coordinates at the given zoom
+const project = (point: LatLng, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin(point.lat * Math.PI / 180), -0.9999), 0.9999);
+  return {
+    x: (point.lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  };
+};
+
+const unproject = (x: number, y: number, zoom: number): LatLng => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - 2 * Math.PI * y / scale;
+  return {
+    lat: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    lng: x / scale * 360 - 180
+  };
+};
+
+const fitView = (points: LatLng[], width: number, height: number): MapView | null => {
+  if (points.length === 0 || width === 0 || height === 0) return null;
+
+  for (let zoom = FIT_MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const projected = points.map(point => project(point, zoom));
+    const xs = projected.map(p => p.x);
+    const ys = projected.map(p => p.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    if (maxX - minX <= width - 2 * FIT_PADDING && maxY - minY <= height - 2 * FIT_PADDING) {
+      return { center: unproject((minX + maxX) / 2, (minY + maxY) / 2, zoom), zoom };
+    }
+  }
+
+  return { center: points[0], zoom: MIN_ZOOM };
+};
+
+export const TrafficMap: React.FC<TrafficMapProps> = ({
+  trafficData,
+  userLocation,
+  routes = [],
+  selectedRouteId,
+  onSelectRoute
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; origin: { x: number; y: number } } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView | null>(null);
+
   const getSeverityColor = (severity: TrafficData['severity']) => {
     switch (severity) {
       case 'severe': return 'bg-red-500';
@@ -28,72 +104,236 @@ export const TrafficMap: React.FC<TrafficMapProps> = ({ trafficData, userLocatio
     }
   };
 
+  const routeGeometries = useMemo(() => routes.map(route => ({
+    route,
+    points: route.polyline
+      ? decodePolyline(route.polyline)
+      : (route.steps || []).flatMap(step => [step.startLocation, step.endLocation])
+  })), [routes]);
+
+  // Frame the routes when there are any, otherwise the traffic around the user
+  const fitPoints = useMemo(() => {
+    const routePoints = routeGeometries.flatMap(geometry => geometry.points);
+    if (routePoints.length > 0) return routePoints;
+    return [
+      ...trafficData.map(traffic => traffic.location),
+      ...(userLocation ? [userLocation] : [])
+    ];
+  }, [routeGeometries, trafficData, userLocation]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setView(fitView(fitPoints, size.width, size.height));
+  }, [fitPoints, size.width, size.height]);
+
+  const zoomBy = (delta: number) => {
+    setView(current => current && {
+      ...current,
+      zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom + delta))
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!view || (e.target as Element).closest('[data-map-interactive]')) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, origin: project(view.center, view.zoom) };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !view) return;
+    setView({
+      ...view,
+      center: unproject(drag.origin.x - (e.clientX - drag.x), drag.origin.y - (e.clientY - drag.y), view.zoom)
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const centerPixel = view ? project(view.center, view.zoom) : null;
+  const toScreen = (point: LatLng) => {
+    if (!view || !centerPixel) return { x: 0, y: 0 };
+    const pixel = project(point, view.zoom);
+    return {
+      x: pixel.x - centerPixel.x + size.width / 2,
+      y: pixel.y - centerPixel.y + size.height / 2
+    };
+  };
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  if (view && centerPixel) {
+    const tileCount = 2 ** view.zoom;
+    const originX = centerPixel.x - size.width / 2;
+    const originY = centerPixel.y - size.height / 2;
+    for (let tileX = Math.floor(originX / TILE_SIZE); tileX <= Math.floor((originX + size.width) / TILE_SIZE); tileX++) {
+      for (let tileY = Math.floor(originY / TILE_SIZE); tileY <= Math.floor((originY + size.height) / TILE_SIZE); tileY++) {
+        if (tileY < 0 || tileY >= tileCount) continue;
+        const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${view.zoom}/${tileX}/${tileY}`,
+          url: TILE_URL.replace('{z}', String(view.zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(tileY)),
+          left: tileX * TILE_SIZE - originX,
+          top: tileY * TILE_SIZE - originY
+        });
+      }
+    }
+  }
+
+  // Draw the selected route last so it sits on top
+  const orderedGeometries = [...routeGeometries].sort(
+    (a, b) => Number(a.route.id === selectedRouteId) - Number(b.route.id === selectedRouteId)
+  );
+
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 transition-colors duration-200">
-      <div className="flex items-center justify-between mb-6">
-        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-          Traffic Hotspots
+    <div className="card p-4 sm:p-6 rounded-2xl transition-all duration-300 hover:shadow-xl">
+      <div className="flex items-center justify-between mb-4 sm:mb-6">
+        <h2 className="section-title">
+          Traffic Map
         </h2>
         <div className="flex items-center space-x-2">
-          <Navigation className="h-5 w-5 text-blue-600 dark:text-blue-400" />
-          <span className="text-sm text-gray-600 dark:text-gray-300">
-            Real-time View
+          <Navigation className="h-5 w-5 text-primary" />
+          <span className="text-sm text-foreground/70">
+            {routes.length > 0 ? `${routes.length} route${routes.length === 1 ? '' : 's'}` : 'Real-time View'}
           </span>
         </div>
       </div>
 
-      <div className="relative bg-gray-100 dark:bg-gray-700 rounded-lg h-96 overflow-hidden">
-        <div className="absolute inset-0 opacity-20">
-          <div className="grid grid-cols-10 grid-rows-10 h-full w-full">
-            {Array.from({ length: 100 }).map((_, i) => (
-              <div key={i} className="border border-gray-300 dark:border-gray-600" />
-            ))}
-          </div>
-        </div>
+      <div
+        ref={containerRef}
+        className="relative bg-muted rounded-lg h-96 overflow-hidden touch-none select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {tiles.map(tile => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            className="absolute pointer-events-none"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
 
-        {userLocation && (
-          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
-            <div className="flex flex-col items-center">
-              <div className="w-4 h-4 bg-blue-600 rounded-full animate-pulse shadow-lg"></div>
-              <span className="text-xs text-gray-700 dark:text-gray-300 mt-1 bg-white dark:bg-gray-800 px-2 py-1 rounded shadow">
-                You
-              </span>
-            </div>
-          </div>
+        {view && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none">
+            {orderedGeometries.map(({ route, points }) => {
+              const isSelected = route.id === selectedRouteId;
+              const path = points.map(point => {
+                const { x, y } = toScreen(point);
+                return `${x.toFixed(1)},${y.toFixed(1)}`;
+              }).join(' ');
+
+              return (
+                <g
+                  key={route.id}
+                  data-map-interactive
+                  className="pointer-events-auto cursor-pointer"
+                  onClick={() => onSelectRoute?.(route.id)}
+                >
+                  <title>{`${route.name} · ${route.durationWithTraffic} min · ${route.trafficLevel} traffic`}</title>
+                  <polyline points={path} fill="none" stroke="transparent" strokeWidth={16} />
+                  <polyline
+                    points={path}
+                    fill="none"
+                    stroke={ROUTE_COLORS[route.trafficLevel]}
+                    strokeWidth={isSelected ? 7 : 4}
+                    strokeOpacity={selectedRouteId && !isSelected ? 0.5 : 0.9}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </g>
+              );
+            })}
+          </svg>
         )}
 
-        {trafficData.slice(0, 8).map((traffic, index) => (
-          <div
-            key={traffic.id}
-            className="absolute animate-pulse"
-            style={{
-              top: `${20 + (index % 4) * 20}%`,
-              left: `${15 + Math.floor(index / 4) * 35}%`,
-            }}
-          >
-            <div className="relative group">
-              <div className={`w-3 h-3 ${getSeverityColor(traffic.severity)} rounded-full shadow-lg`}>
-                <div className={`absolute inset-0 ${getSeverityColor(traffic.severity)} rounded-full animate-ping opacity-75`}></div>
-              </div>
+        {view && userLocation && (() => {
+          const { x, y } = toScreen(userLocation);
+          return (
+            <div className="absolute transform -translate-x-1/2 -translate-y-1/2 pointer-events-none" style={{ left: x, top: y }}>
+              <div className="w-4 h-4 bg-blue-600 border-2 border-white rounded-full animate-pulse shadow-lg"></div>
+            </div>
+          );
+        })()}
 
-              <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
-                <div className="bg-gray-900 dark:bg-gray-700 text-white text-xs rounded-lg px-3 py-2 whitespace-nowrap shadow-xl">
-                  <div className="font-medium">{getSeverityLabel(traffic.severity)}</div>
-                  <div>{traffic.location.address}</div>
-                  <div>Speed: {traffic.speed} mph</div>
-                  <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900 dark:border-t-gray-700"></div>
+        {view && trafficData.map(traffic => {
+          const { x, y } = toScreen(traffic.location);
+          return (
+            <div
+              key={traffic.id}
+              data-map-interactive
+              className="absolute transform -translate-x-1/2 -translate-y-1/2"
+              style={{ left: x, top: y }}
+            >
+              <div className="relative group">
+                <div className={`w-3 h-3 ${getSeverityColor(traffic.severity)} rounded-full shadow-lg`}>
+                  <div className={`absolute inset-0 ${getSeverityColor(traffic.severity)} rounded-full animate-ping opacity-75`}></div>
+                </div>
+
+                <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10 pointer-events-none">
+                  <div className="bg-gray-900 dark:bg-gray-700 text-white text-xs rounded-lg px-3 py-2 whitespace-nowrap shadow-xl">
+                    <div className="font-medium">{getSeverityLabel(traffic.severity)}</div>
+                    <div>{traffic.location.address}</div>
+                    {traffic.cause && <div>Cause: {traffic.cause}</div>}
+                    {traffic.speed === null ? traffic.description && <div>{traffic.description}</div> : <div>Speed: {traffic.speed} mph</div>}
+                    <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900 dark:border-t-gray-700"></div>
+                  </div>
                 </div>
               </div>
             </div>
+          );
+        })}
+
+        {!view && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-foreground/60">
+            No location or route data to display
           </div>
-        ))}
+        )}
+
+        <div data-map-interactive className="absolute top-2 right-2 flex flex-col bg-surface/90 rounded-lg shadow border border-border">
+          <button onClick={() => zoomBy(1)} className="p-2 text-foreground/70 hover:text-foreground" aria-label="Zoom in">
+            <Plus className="h-4 w-4" />
+          </button>
+          <button onClick={() => zoomBy(-1)} className="p-2 text-foreground/70 hover:text-foreground" aria-label="Zoom out">
+            <Minus className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setView(fitView(fitPoints, size.width, size.height))}
+            className="p-2 text-foreground/70 hover:text-foreground"
+            aria-label="Fit to routes"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="absolute bottom-0 right-0 bg-surface/80 px-2 py-0.5 text-[10px] text-foreground/70 pointer-events-none">
+          {TILE_ATTRIBUTION}
+        </div>
       </div>
 
       <div className="mt-4 flex flex-wrap gap-4">
         {(['severe', 'high', 'moderate', 'low'] as const).map((severity) => (
           <div key={severity} className="flex items-center space-x-2">
             <div className={`w-3 h-3 ${getSeverityColor(severity)} rounded-full`}></div>
-            <span className="text-sm text-gray-600 dark:text-gray-300">
+            <span className="text-sm text-foreground/70">
               {getSeverityLabel(severity)}
             </span>
           </div>
@@ -101,4 +341,4 @@ export const TrafficMap: React.FC<TrafficMapProps> = ({ trafficData, userLocatio
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,19 +1,23 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { DEFAULT_ROUTE_PREFERENCES, RoutePreferences, RouteRanker } from '../services/routeRanker';
+import { AuthService } from '../services/authService';
+import type { AuthUser } from '../services/authCredentials';
 
-interface User {
-  id: string;
-  email: string;
-  name?: string;
-}
+type User = AuthUser;
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, name?: string) => Promise<void>;
+  signInWithEthereum: () => Promise<void>;
   signOut: () => Promise<void>;
+  routePreferences: RoutePreferences;
+  updateRoutePreferences: (preferences: RoutePreferences) => void;
 }
 
+const preferencesKey = (userId: string) => `trafficiq_route_preferences_${userId}`;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -23,14 +27,12 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [routePreferences, setRoutePreferences] = useState<RoutePreferences>(DEFAULT_ROUTE_PREFERENCES);
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const storedUser = localStorage.getItem('trafficiq_user');
-        if (storedUser) {
-          setUser(JSON.parse(storedUser));
-        }
+        setUser(await AuthService.restoreSession());
       } catch (error) {
         console.error('Auth check failed:', error);
       } finally {
@@ -39,19 +41,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     checkAuth();
+    // Keeps the user in sync when a refresh is rejected mid-session
+    return AuthService.onSessionChange(setUser);
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      setRoutePreferences(DEFAULT_ROUTE_PREFERENCES);
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(preferencesKey(user.id));
+      setRoutePreferences(stored ? RouteRanker.normalizePreferences(JSON.parse(stored)) : DEFAULT_ROUTE_PREFERENCES);
+    } catch (error) {
+      console.error('Failed to load route preferences:', error);
+      setRoutePreferences(DEFAULT_ROUTE_PREFERENCES);
+    }
+  }, [user]);
+
+  const updateRoutePreferences = (preferences: RoutePreferences) => {
+    const normalized = RouteRanker.normalizePreferences(preferences);
+    setRoutePreferences(normalized);
+    if (user) {
+      localStorage.setItem(preferencesKey(user.id), JSON.stringify(normalized));
+    }
+  };
+
   const signIn = async (email: string, password: string) => {
     try {
       setLoading(true);
-      const user: User = {
-        id: 'user_' + Date.now(),
-        email,
-        name: email.split('@')[0]
-      };
-
-      localStorage.setItem('trafficiq_user', JSON.stringify(user));
-      setUser(user);
+      await AuthService.signIn(email, password);
     } catch (error) {
       console.error('Sign in failed:', error);
       throw error;
@@ -63,14 +83,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const signUp = async (email: string, password: string, name?: string) => {
     try {
       setLoading(true);
-      const user: User = {
-        id: 'user_' + Date.now(),
-        email,
-        name: name || email.split('@')[0]
-      };
-
-      localStorage.setItem('trafficiq_user', JSON.stringify(user));
-      setUser(user);
+      await AuthService.signUp(email, password, name);
     } catch (error) {
       console.error('Sign up failed:', error);
       throw error;
@@ -79,11 +92,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const signInWithEthereum = async () => {
+    try {
+      setLoading(true);
+      await AuthService.signInWithEthereum();
+    } catch (error) {
+      console.error('Wallet sign in failed:', error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const signOut = async () => {
     try {
       setLoading(true);
-      localStorage.removeItem('trafficiq_user');
-      setUser(null);
+      await AuthService.signOut();
     } catch (error) {
       console.error('Sign out failed:', error);
       throw error;
@@ -97,7 +121,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loading,
     signIn,
     signUp,
-    signOut
+    signInWithEthereum,
+    signOut,
+    routePreferences,
+    updateRoutePreferences
   };
 
   return (
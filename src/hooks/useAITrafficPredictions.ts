@@ -225,7 +225,7 @@ export const useAITrafficPredictions = (userLocation: Location | null, trafficDa
       nextHourPrediction,
       averageConfidence,
       peakHour,
-      accuracy: predictions?.accuracy || averageConfidence * 100,
+      accuracy: predictions?.accuracy ?? null,
       isAIEnhanced: !!aiPredictions && enhancedData.length > 0
     }
   };
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { CommuteService } from '../services/commuteService';
+import type { CommuteAlert } from '../services/commuteWatch';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const seenKey = (ownerId: string) => `og_route_commute_alerts_seen_${ownerId}`;
+
+/**
+ * Poll for commute alerts raised by the server's watcher and show the ones that asked
+ * for it as browser notifications. Returns the alerts received while the app was open.
+ */
+export const useCommuteAlerts = (ownerId: string | null) => {
+  const [alerts, setAlerts] = useState<CommuteAlert[]>([]);
+
+  useEffect(() => {
+    if (!ownerId) {
+      setAlerts([]);
+      return;
+    }
+
+    // Alerts raised before the first visit aren't replayed
+    let since = localStorage.getItem(seenKey(ownerId)) || new Date().toISOString();
+
+    const poll = async () => {
+      try {
+        const received = await CommuteService.getRecentAlerts(since);
+        if (received.length === 0) return;
+
+        since = received[0].createdAt;
+        localStorage.setItem(seenKey(ownerId), since);
+        setAlerts(current => [...received, ...current]);
+
+        if ('Notification' in window && Notification.permission === 'granted') {
+          received
+            .filter(alert => alert.browser)
+            .forEach(alert => new Notification('Commute alert', { body: alert.message, tag: alert.id }));
+        }
+      } catch (error) {
+        console.warn('Failed to check commute alerts:', error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [ownerId]);
+
+  return alerts;
+};
@@ -1,5 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Location } from '../types';
+import {
+  BrowserPositionSource,
+  PositionFix,
+  PositionSmoother,
+  PositionSource,
+  describeGeolocationError,
+  motionBetween
+} from '../services/positionSource';
 
 interface GeolocationState {
   location: Location | null;
@@ -18,14 +26,32 @@ const generateSessionId = () => Math.random().toString(36).substring(2, 15);
 // Location is considered stale after 24 hours
 const LOCATION_EXPIRY_MS = 24 * 60 * 60 * 1000;
 const STORAGE_KEY = 'traffick-user-location';
+// Keep the smoothed track bounded on long drives
+const MAX_TRACK_POINTS = 1000;
 
-export const useGeolocation = () => {
+interface UseGeolocationOptions {
+  /** Follow position changes instead of a single cached fix */
+  watch?: boolean;
+  /** Where watch mode gets fixes from; defaults to the browser. Pass a stable instance (e.g. from useMemo). */
+  source?: PositionSource;
+  /** Fixes with a worse accuracy radius (meters) are dropped */
+  maxAccuracyMeters?: number;
+}
+
+export const useGeolocation = ({
+  watch = false,
+  source,
+  maxAccuracyMeters = 100
+}: UseGeolocationOptions = {}) => {
   const [state, setState] = useState<GeolocationState>({
     location: null,
     error: null,
   });
 
   const [isRequestingLocation, setIsRequestingLocation] = useState(false);
+  const [position, setPosition] = useState<PositionFix | null>(null);
+  const [track, setTrack] = useState<PositionFix[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
 
   // Load saved location from localStorage
   const loadSavedLocation = useCallback((): SavedLocationData | null => {
@@ -163,21 +189,9 @@ export const useGeolocation = () => {
         setIsRequestingLocation(false);
       },
       (error) => {
-        let errorMessage = 'An unknown error occurred.';
-        switch (error.code) {
-          case error.PERMISSION_DENIED:
-            errorMessage = 'Location access denied by user.';
-            break;
-          case error.POSITION_UNAVAILABLE:
-            errorMessage = 'Location information is unavailable.';
-            break;
-          case error.TIMEOUT:
-            errorMessage = 'Location request timed out.';
-            break;
-        }
         setState({
           location: null,
-          error: errorMessage,
+          error: describeGeolocationError(error),
         });
         setIsRequestingLocation(false);
       },
@@ -234,9 +248,57 @@ export const useGeolocation = () => {
     }
   }, [loadSavedLocation, requestLocation, reverseGeocode, saveLocation]);
 
+  // Follow position changes (guidance, trip logging); the address is kept rather than re-geocoded on every fix
+  useEffect(() => {
+    if (!watch || isPaused) return;
+
+    const feed = source ?? new BrowserPositionSource();
+    const smoother = new PositionSmoother();
+    let previous: PositionFix | undefined;
+
+    return feed.watch(
+      (fix) => {
+        if (fix.accuracy > maxAccuracyMeters) return;
+
+        const smoothed = { ...smoother.update(fix), timestamp: fix.timestamp };
+        const derived = motionBetween(previous, smoothed);
+        const next: PositionFix = {
+          ...smoothed,
+          accuracy: fix.accuracy,
+          heading: fix.heading ?? derived.heading ?? previous?.heading ?? null,
+          speed: fix.speed ?? derived.speed,
+        };
+        previous = next;
+
+        setPosition(next);
+        setTrack(current => [...current.slice(1 - MAX_TRACK_POINTS), next]);
+        setState(current => ({
+          location: {
+            lat: next.lat,
+            lng: next.lng,
+            address: current.location?.address,
+          },
+          error: null,
+        }));
+      },
+      (message) => {
+        console.warn('Position watch failed:', message);
+        setState(current => ({ ...current, error: message }));
+      }
+    );
+  }, [watch, isPaused, source, maxAccuracyMeters]);
+
+  const pause = useCallback(() => setIsPaused(true), []);
+  const resume = useCallback(() => setIsPaused(false), []);
+
   return {
     ...state,
     isRequestingLocation,
     refreshLocation,
+    position,
+    track,
+    isPaused,
+    pause,
+    resume,
   };
 };
\ No newline at end of file
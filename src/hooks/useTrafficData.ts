@@ -1,47 +1,45 @@
 import { useState, useEffect } from 'react';
 import { TrafficData, Location } from '../types';
-import { TrafficService } from '../services/trafficService';
+import { TrafficService, TrafficCondition } from '../services/trafficService';
+import { applyTrafficDelta, trafficStreamArea } from '../services/trafficStream';
+
+// Convert TrafficCondition to TrafficData format
+const toTrafficData = (condition: TrafficCondition): TrafficData => ({
+  id: condition.id,
+  location: condition.location,
+  severity: condition.severity,
+  speed: condition.speed,
+  duration: condition.duration,
+  confidence: condition.confidence,
+  timestamp: condition.timestamp,
+  predictedDuration: condition.predictedDuration,
+  affectedRoutes: condition.affectedRoutes,
+  cause: condition.cause,
+  description: condition.description
+});
 
 export const useTrafficData = (userLocation: Location | null) => {
   const [trafficData, setTrafficData] = useState<TrafficData[]>([]);
   const [lastUpdated, setLastUpdated] = useState(new Date());
   const [isLoading, setIsLoading] = useState(false);
-  const [isAutoRefreshing, setIsAutoRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchTrafficData = async (isManualRefresh: boolean = false) => {
+  const fetchTrafficData = async () => {
     if (!userLocation) {
       console.log('No user location available for traffic data');
       setTrafficData([]);
       return;
     }
 
-    console.log('Fetching traffic data for location:', userLocation, isManualRefresh ? '(manual)' : '(auto)');
-    
-    // Only show loading indicator for manual refreshes
-    if (isManualRefresh) {
-      setIsLoading(true);
-    } else {
-      setIsAutoRefreshing(true);
-    }
+    console.log('Fetching traffic data for location:', userLocation);
+    setIsLoading(true);
     setError(null);
 
     try {
       const conditions = await TrafficService.getCurrentTrafficConditions(userLocation, 10);
       console.log('Received traffic conditions:', conditions);
       
-      // Convert TrafficCondition to TrafficData format
-      const convertedData: TrafficData[] = conditions.map(condition => ({
-        id: condition.id,
-        location: condition.location,
-        severity: condition.severity,
-        speed: condition.speed,
-        duration: condition.duration,
-        confidence: condition.confidence,
-        timestamp: condition.timestamp,
-        predictedDuration: condition.predictedDuration,
-        affectedRoutes: condition.affectedRoutes
-      }));
+      const convertedData = conditions.map(toTrafficData);
 
       console.log('Converted traffic data:', convertedData);
       setTrafficData(convertedData);
@@ -54,35 +52,49 @@ export const useTrafficData = (userLocation: Location | null) => {
       setError(error instanceof Error ? error.message : 'Failed to load traffic data. Please check your internet connection.');
       setTrafficData([]);
     } finally {
-      if (isManualRefresh) {
-        setIsLoading(false);
-      } else {
-        setIsAutoRefreshing(false);
-      }
+      setIsLoading(false);
     }
   };
 
+  // Moving within the same stream area keeps the subscription
+  const streamArea = userLocation ? trafficStreamArea(userLocation) : null;
+
   useEffect(() => {
-    // Initial fetch (show loading for first load)
-    fetchTrafficData(true);
-    
-    // Auto-refresh every 5 minutes in background without loading indicator
-    const interval = setInterval(() => fetchTrafficData(false), 5 * 60 * 1000);
-    
-    return () => clearInterval(interval);
-  }, [userLocation]);
+    if (!streamArea) {
+      setTrafficData([]);
+      return;
+    }
+
+    // The server pushes the area's conditions, then only what changes on each refresh
+    setIsLoading(true);
+    setError(null);
+    const unsubscribe = TrafficService.subscribeToTrafficUpdates(
+      streamArea,
+      delta => {
+        setTrafficData(current => applyTrafficDelta(current, delta, toTrafficData));
+        setLastUpdated(new Date(delta.at));
+        setIsLoading(false);
+        setError(null);
+      },
+      message => {
+        setError(message);
+        setIsLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [streamArea]);
 
   const refreshTrafficData = async () => {
     if (!userLocation) return;
     console.log('Manually refreshing traffic data');
-    await fetchTrafficData(true); // Pass true for manual refresh to show loading
+    await fetchTrafficData();
   };
 
   return { 
     trafficData, 
     lastUpdated, 
     isLoading, 
-    isAutoRefreshing,
     error, 
     refreshTrafficData 
   };
@@ -1,7 +1,8 @@
 // 0G Compute Network SDK integration for AI traffic analysis
 import { ethers } from "ethers";
 import { TrafficDataStorageService } from "./trafficDataStorage";
-import { TrafficDataCollection } from "../types/trafficStorage";
+import { TrafficDataCollection, TripRecord } from "../types/trafficStorage";
+import type { PredictionEvaluation } from "./predictionEvaluation";
 
 interface TrafficAnalysisRequest {
   currentTraffic: any[];
@@ -234,6 +235,19 @@ export class ZeroGComputeService {
       };
       
       await storageService.storeTrafficAnalysis(collection, analysis, request.userLocation);
+
+      // The analysis describes conditions over the next hour; log it so it can be scored later
+      const madeAt = new Date();
+      storageService.recordPredictions([{
+        id: `analysis-${madeAt.getTime()}`,
+        source: 'ai-analysis',
+        location: { lat: request.userLocation.lat, lng: request.userLocation.lng },
+        madeAt: madeAt.toISOString(),
+        windowStart: madeAt.toISOString(),
+        windowEnd: new Date(madeAt.getTime() + 60 * 60 * 1000).toISOString(),
+        congestion: analysis.predictedCongestion,
+        severity: analysis.severity
+      }]);
       console.log('✅ Traffic analysis data stored successfully');
       
     } catch (error) {
@@ -255,6 +269,18 @@ export class ZeroGComputeService {
     }
   }
 
+  /**
+   * Score logged predictions against observed conditions and recorded trips
+   */
+  static getPredictionEvaluation(): PredictionEvaluation | null {
+    try {
+      return TrafficDataStorageService.getInstance().getPredictionEvaluation();
+    } catch (error) {
+      console.error('Failed to evaluate predictions:', error);
+      return null;
+    }
+  }
+
   /**
    * Get nearby traffic hotspots
    */
@@ -656,6 +682,16 @@ export class ZeroGComputeService {
 
       const items = stored.map(s => ({ text: toText(s), label: labelMap[String(s?.analysis?.severity || 'moderate')] ?? 1 }));
 
+      // Recorded trips are ground truth: label by the congestion actually experienced
+      const trips = Object.values(data?.trips || {}) as TripRecord[];
+      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+      trips.forEach(t => {
+        items.push({
+          text: `Trip via ${t.routeName} from ${Number(t.origin.lat).toFixed(4)},${Number(t.origin.lng).toFixed(4)} to ${Number(t.destination.lat).toFixed(4)},${Number(t.destination.lng).toFixed(4)} on ${dayNames[t.dayOfWeek] || 'Unknown'} at ${t.hourOfDay}:00. Free-flow ${Math.round(t.freeFlowDuration / 60)} min, predicted ${Math.round(t.predictedDuration / 60)} min.`,
+          label: labelMap[String(t.actualTrafficLevel)] ?? 1
+        });
+      });
+
       // Fallback: create synthetic samples if not enough data
       const ensureCount = (arr: { text: string; label: number }[], count: number) => {
         const synthetics: { text: string; label: number }[] = [];
@@ -4,21 +4,24 @@
  */
 
 import { StorageMetadataService } from './storageMetadata';
+import { AuthService } from './authService';
+import { IncidentReportScoring, PublicIncidentReport } from './incidentReports';
 
 // Use VITE_API_URL if set; in dev default to localhost:4000; in prod use relative
 const API_URL = import.meta.env.VITE_API_URL || (import.meta.env.DEV ? 'http://localhost:4000' : '');
 
 export class ZeroGStorageService {
   /**
-   * Upload traffic data to 0G Storage
+   * Upload traffic data to 0G Storage (requires a signed-in user).
+   * Uploads by wallet users come back with their address as `owner`.
    */
-  static async uploadTrafficData(data: any): Promise<{ rootHash: string; txHash: string; timestamp: string }> {
+  static async uploadTrafficData(data: any): Promise<{ rootHash: string; txHash: string; timestamp: string; owner?: string | null }> {
     console.log('🔵 [0G Storage] Preparing data for 0G decentralized storage...');
     console.log('📦 [0G Storage] Data to be saved:', JSON.stringify({ data }));
     const endpoint = `${API_URL}/api/storage/save`;
     console.log('🔵 [0G Storage] Endpoint:', endpoint);
 
-    const response = await fetch(endpoint, {
+    const response = await AuthService.authorizedFetch(endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ data })
@@ -78,6 +81,7 @@ export class ZeroGStorageService {
       rootHash: result.rootHash,
       txHash: result.txHash,
       timestamp: result.timestamp,
+      owner: result.owner ?? undefined,
       dataType: 'traffic_conditions',
       description: `Traffic conditions data (${trafficData.length} items)`,
       metadata: { count: trafficData.length }
@@ -104,6 +108,7 @@ export class ZeroGStorageService {
       rootHash: result.rootHash,
       txHash: result.txHash,
       timestamp: result.timestamp,
+      owner: result.owner ?? undefined,
       dataType: 'route_data',
       description: `Route from ${routeData.origin?.lat},${routeData.origin?.lng} to ${routeData.destination}`,
       metadata: {
@@ -115,6 +120,33 @@ export class ZeroGStorageService {
     return result;
   }
 
+  /**
+   * Archive crowdsourced incident reports with their scores; who reported or voted is left out
+   */
+  static async saveIncidentReports(reports: PublicIncidentReport[]): Promise<{ rootHash: string; txHash: string; timestamp: string }> {
+    console.log(`🔵 [0G Storage] Archiving ${reports.length} incident reports to 0G Storage...`);
+    const data = {
+      type: 'incident_reports',
+      timestamp: new Date().toISOString(),
+      count: reports.length,
+      data: reports.map(report => IncidentReportScoring.toPublic(report))
+    };
+
+    const result = await this.uploadTrafficData(data);
+
+    StorageMetadataService.saveMetadata({
+      rootHash: result.rootHash,
+      txHash: result.txHash,
+      timestamp: result.timestamp,
+      owner: result.owner ?? undefined,
+      dataType: 'incident_reports',
+      description: `Incident reports (${reports.length} items)`,
+      metadata: { count: reports.length }
+    });
+
+    return result;
+  }
+
   /**
    * Download data from 0G Storage
    */
@@ -0,0 +1,12 @@
+/**
+ * API Response
+ * Reads a backend response; failed requests carry their reason as { error }
+ */
+
+export async function readJson<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `${fallbackError} (${response.status})`);
+  }
+  return data as T;
+}
@@ -0,0 +1,74 @@
+/**
+ * Auth Credentials
+ * Accounts and sessions issued by the server, and validation of sign-up and sign-in bodies.
+ */
+
+export interface AuthUser {
+  id: string;
+  email?: string; // set for password accounts
+  address?: string; // checksummed wallet address, set for Sign-In with Ethereum accounts
+  name?: string;
+  admin?: boolean; // listed in the server's ADMIN_ACCOUNTS
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string; // bearer token for protected endpoints
+  refreshToken: string; // exchanged for a new session at /api/auth/refresh
+  expiresAt: string; // ISO, when accessToken stops being accepted
+}
+
+export interface SignUpInput {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+// Password sign-ins and sign-ups a client address may try in an hour
+export const MAX_PASSWORD_ATTEMPTS_PER_IP_PER_HOUR = 30;
+// Wrong passwords an account takes in an hour before sign-in is refused
+export const MAX_FAILED_SIGN_INS_PER_HOUR = 10;
+const MAX_PASSWORD_LENGTH = 256;
+const MAX_NAME_LENGTH = 80;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const parseEmail = (value: unknown): string => {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new Error('A valid email is required');
+  }
+  return email;
+};
+
+export class AuthCredentials {
+  /**
+   * Validate a sign-up body
+   */
+  static parseSignUp(body: unknown): SignUpInput {
+    const input = (body || {}) as Record<string, unknown>;
+    const password = input.password;
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (password.length > MAX_PASSWORD_LENGTH) {
+      throw new Error('Password is too long');
+    }
+    const name = typeof input.name === 'string' ? input.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+
+    return { email: parseEmail(input.email), password, name: name || undefined };
+  }
+
+  /**
+   * Validate a sign-in body. Password rules aren't re-checked so older accounts can still sign in.
+   */
+  static parseSignIn(body: unknown): { email: string; password: string } {
+    const input = (body || {}) as Record<string, unknown>;
+    if (typeof input.password !== 'string' || !input.password) {
+      throw new Error('Password is required');
+    }
+    return { email: parseEmail(input.email), password: input.password };
+  }
+}
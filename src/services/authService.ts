@@ -0,0 +1,188 @@
+/**
+ * Auth Service
+ * Signs in against the backend, keeps the session in localStorage and attaches
+ * the access token to protected requests, refreshing it when it runs out.
+ */
+
+import { BrowserProvider } from 'ethers';
+import type { AuthSession, AuthUser } from './authCredentials';
+import { SIWE_STATEMENT, SiweMessage } from './siweMessage';
+import { readJson } from './apiResponse';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+const SESSION_KEY = 'trafficiq_session';
+// Accounts from before server auth only ever existed in this browser
+const LEGACY_USER_KEY = 'trafficiq_user';
+// Refresh slightly early so a token doesn't expire in flight
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+type SessionListener = (user: AuthUser | null) => void;
+
+const listeners = new Set<SessionListener>();
+let pendingRefresh: Promise<AuthSession | null> | null = null;
+
+const postJson = (path: string, body: unknown) =>
+  fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+export class AuthService {
+  static getSession(): AuthSession | null {
+    try {
+      const stored = localStorage.getItem(SESSION_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static setSession(session: AuthSession | null) {
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    listeners.forEach(listener => listener(session?.user ?? null));
+  }
+
+  /**
+   * Called when the signed-in user changes, including when a refresh is rejected
+   */
+  static onSessionChange(listener: SessionListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static async signUp(email: string, password: string, name?: string): Promise<AuthUser> {
+    const session = await readJson<AuthSession>(await postJson('/api/auth/signup', { email, password, name }), 'Sign up failed');
+    this.setSession(session);
+    return session.user;
+  }
+
+  static async signIn(email: string, password: string): Promise<AuthUser> {
+    const session = await readJson<AuthSession>(await postJson('/api/auth/login', { email, password }), 'Sign in failed');
+    this.setSession(session);
+    return session.user;
+  }
+
+  /**
+   * Sign in by signing a server-issued nonce with the browser's injected wallet
+   */
+  static async signInWithEthereum(): Promise<AuthUser> {
+    if (!window.ethereum) {
+      throw new Error('No Ethereum wallet found. Install MetaMask or a similar extension.');
+    }
+
+    const provider = new BrowserProvider(window.ethereum);
+    const signer = await provider.getSigner();
+    const [address, network, { nonce }] = await Promise.all([
+      signer.getAddress(),
+      provider.getNetwork(),
+      postJson('/api/auth/siwe/nonce', {}).then(response => readJson<{ nonce: string }>(response, 'Could not start wallet sign-in'))
+    ]);
+
+    const message = SiweMessage.format({
+      domain: window.location.host,
+      address,
+      statement: SIWE_STATEMENT,
+      uri: window.location.origin,
+      version: '1',
+      chainId: Number(network.chainId),
+      nonce,
+      issuedAt: new Date().toISOString()
+    });
+    const signature = await signer.signMessage(message);
+
+    const session = await readJson<AuthSession>(
+      await postJson('/api/auth/siwe/verify', { message, signature }),
+      'Wallet sign-in failed'
+    );
+    this.setSession(session);
+    return session.user;
+  }
+
+  static async signOut(): Promise<void> {
+    const session = this.getSession();
+    this.setSession(null);
+    if (!session) return;
+
+    try {
+      await postJson('/api/auth/logout', { refreshToken: session.refreshToken });
+    } catch (error) {
+      console.warn('Failed to end session on the server:', error);
+    }
+  }
+
+  /**
+   * Swap the refresh token for a new session. Resolves null and signs out when the server
+   * rejects it; network errors are thrown and leave the session in place.
+   */
+  static refresh(): Promise<AuthSession | null> {
+    if (!pendingRefresh) {
+      pendingRefresh = (async () => {
+        const current = this.getSession();
+        if (!current) return null;
+
+        const response = await postJson('/api/auth/refresh', { refreshToken: current.refreshToken });
+        if (response.status === 401) {
+          this.setSession(null);
+          return null;
+        }
+        const session = await readJson<AuthSession>(response, 'Session refresh failed');
+        this.setSession(session);
+        return session;
+      })().finally(() => {
+        pendingRefresh = null;
+      });
+    }
+    return pendingRefresh;
+  }
+
+  /**
+   * The stored user, after renewing the session if its access token has expired
+   */
+  static async restoreSession(): Promise<AuthUser | null> {
+    localStorage.removeItem(LEGACY_USER_KEY);
+
+    const session = this.getSession();
+    if (!session) return null;
+    if (Date.parse(session.expiresAt) - EXPIRY_MARGIN_MS > Date.now()) return session.user;
+
+    try {
+      return (await this.refresh())?.user ?? null;
+    } catch (error) {
+      // Offline: keep the user signed in and retry on the next protected request
+      console.warn('Session refresh failed:', error);
+      return session.user;
+    }
+  }
+
+  /**
+   * fetch() with the access token attached, retried once with a refreshed token on 401
+   */
+  static async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    let session = this.getSession();
+    if (session && Date.parse(session.expiresAt) - EXPIRY_MARGIN_MS <= Date.now()) {
+      session = await this.refresh();
+    }
+    if (!session) {
+      throw new Error('Sign in to continue');
+    }
+
+    const send = (token: string) => {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', `Bearer ${token}`);
+      return fetch(url, { ...init, headers });
+    };
+
+    const response = await send(session.accessToken);
+    if (response.status !== 401) return response;
+
+    const refreshed = await this.refresh();
+    return refreshed ? send(refreshed.accessToken) : response;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Commute Service
+ * Client for the signed-in user's saved commutes; the server watches each one ahead of departure.
+ */
+
+import type { Commute, CommuteAlert, CommuteInput } from './commuteWatch';
+import { readJson } from './apiResponse';
+import { AuthService } from './authService';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+export type SavedCommute = Commute & { nextDeparture: string | null };
+
+export class CommuteService {
+  static async getCommutes(): Promise<SavedCommute[]> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/commutes`);
+    const data = await readJson<{ commutes: SavedCommute[] }>(response, 'Failed to load commutes');
+    return data.commutes;
+  }
+
+  static async saveCommute(input: CommuteInput): Promise<Commute> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/commutes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    const commute = await readJson<Commute>(response, 'Failed to save commute');
+    console.log('🗓️ Commute saved:', commute.id);
+    return commute;
+  }
+
+  static async deleteCommute(id: string): Promise<void> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/commutes/${encodeURIComponent(id)}`, {
+      method: 'DELETE'
+    });
+    await readJson(response, 'Failed to delete commute');
+  }
+
+  static async getAlerts(commuteId: string): Promise<CommuteAlert[]> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/commutes/${encodeURIComponent(commuteId)}/alerts`);
+    const data = await readJson<{ alerts: CommuteAlert[] }>(response, 'Failed to load commute alerts');
+    return data.alerts;
+  }
+
+  /**
+   * Alerts across all of the user's commutes raised after `since`
+   */
+  static async getRecentAlerts(since: string): Promise<CommuteAlert[]> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/commutes/alerts?${new URLSearchParams({ since })}`);
+    const data = await readJson<{ alerts: CommuteAlert[] }>(response, 'Failed to load commute alerts');
+    return data.alerts;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Commute Watch
+ * Saved commutes with a weekly departure schedule, and the checks the server runs ahead
+ * of each departure: too much traffic on the usual route, or a clearly faster alternative.
+ */
+
+import type { LatLng, TravelMode } from './routingProvider';
+import type { RouteResult } from './routeService';
+
+export interface CommuteSchedule {
+  days: number[]; // 0 = Sunday
+  time: string; // HH:MM, local to timeZone
+  timeZone: string; // IANA, e.g. Europe/Berlin
+}
+
+export interface Commute {
+  id: string;
+  ownerId: string;
+  name: string;
+  origin: LatLng;
+  destination: string;
+  travelMode?: TravelMode;
+  routeName?: string; // the route usually taken; the recommended one when unset
+  schedule: CommuteSchedule;
+  delayThresholdMinutes: number;
+  browserNotifications: boolean;
+  webhookUrl?: string;
+  createdAt: string; // ISO
+  lastCheck: { departure: string; at: string } | null;
+}
+
+export type CommuteAlertKind = 'delay' | 'faster-route';
+
+export interface CommuteAlert {
+  id: string;
+  commuteId: string;
+  ownerId: string;
+  kind: CommuteAlertKind;
+  departure: string; // ISO, the scheduled departure the alert is about
+  message: string;
+  routeName: string;
+  durationWithTraffic: number; // minutes on the usual route
+  trafficDelay: number;
+  alternativeName?: string;
+  savings?: number; // minutes saved by the alternative
+  browser: boolean;
+  webhook?: 'sent' | 'failed';
+  createdAt: string; // ISO
+}
+
+// The owner is the signed-in account, set by the server
+export type CommuteInput = Omit<Commute, 'id' | 'ownerId' | 'createdAt' | 'lastCheck'>;
+
+// Checks start this long before departure and repeat while it approaches
+export const COMMUTE_LEAD_MINUTES = 45;
+const RECHECK_MINUTES = 15;
+// An alternative is only worth mentioning when it saves at least this much
+const MIN_ALTERNATIVE_SAVINGS_MINUTES = 5;
+const DEFAULT_DELAY_THRESHOLD_MINUTES = 10;
+const MAX_NAME_LENGTH = 80;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'transit', 'bicycling'];
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+const zonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(instant);
+  const field = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: field('year'), month: field('month'), day: field('day'), hour: field('hour'), minute: field('minute') };
+};
+
+/**
+ * The instant a local wall-clock time occurs in a time zone
+ */
+const zonedTime = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  let instant = wall;
+  // Two passes settle on the right offset, including on DST change days
+  for (let pass = 0; pass < 2; pass++) {
+    const local = zonedParts(new Date(instant), timeZone);
+    const shown = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    instant += wall - shown;
+  }
+  return new Date(instant);
+};
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isPrivateIPv4 = ([a, b]: number[]): boolean =>
+  a === 0 || a === 10 || a === 127 || a >= 224 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168);
+
+const parseIPv4 = (address: string): number[] | null => {
+  const octets = address.split('.');
+  if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) return null;
+  return octets.map(Number);
+};
+
+// Eight 16-bit groups; an IPv4 tail (::ffff:10.0.0.1) counts as the last two
+const parseIPv6 = (address: string): number[] | null => {
+  const ipv4Tail = address.includes('.') ? /(?<=:)[\d.]+$/.exec(address) : null;
+  const tailOctets = ipv4Tail ? parseIPv4(ipv4Tail[0]) : null;
+  if (ipv4Tail && !tailOctets) return null;
+  const text = tailOctets
+    ? `${address.slice(0, ipv4Tail!.index)}${((tailOctets[0] << 8) | tailOctets[1]).toString(16)}:${((tailOctets[2] << 8) | tailOctets[3]).toString(16)}`
+    : address;
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  return groups.every(group => /^[0-9a-f]{1,4}$/i.test(group)) ? groups.map(group => parseInt(group, 16)) : null;
+};
+
+/**
+ * Whether an IP address is loopback, private, link-local, shared or otherwise not publicly
+ * routable. False for anything that isn't an IP literal.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '');
+  const ipv4 = parseIPv4(host);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const groups = parseIPv6(host);
+  if (!groups) return false;
+  const [first] = groups;
+  const embedsIPv4 = groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff);
+  if (embedsIPv4) {
+    // :: and ::1 land here too, as 0.0.0.0 and 0.0.0.1
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff]);
+  }
+  return (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00; // multicast
+}
+
+// Webhooks are posted by the server, so they must not point back at it or its network
+const parseWebhookUrl = (value: unknown): string => {
+  let url: URL | null = null;
+  try {
+    url = typeof value === 'string' ? new URL(value) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    throw new Error('webhookUrl must be an http(s) URL');
+  }
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    throw new Error('webhookUrl must point to a public host');
+  }
+  return url.toString();
+};
+
+export class CommuteWatch {
+  /**
+   * The next scheduled departure at or after now
+   */
+  static nextDeparture(schedule: CommuteSchedule, now: Date = new Date()): Date | null {
+    const [hour, minute] = schedule.time.split(':').map(Number);
+    const today = zonedParts(now, schedule.timeZone);
+
+    for (let offset = 0; offset <= 7; offset++) {
+      const date = new Date(Date.UTC(today.year, today.month - 1, today.day) + offset * DAY_MS);
+      if (!schedule.days.includes(date.getUTCDay())) continue;
+
+      const departure = zonedTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, schedule.timeZone);
+      if (departure.getTime() >= now.getTime()) return departure;
+    }
+    return null;
+  }
+
+  /**
+   * The departure to check now, if one is within the lead time and wasn't checked recently
+   */
+  static dueDeparture(commute: Commute, now: Date = new Date()): Date | null {
+    const departure = this.nextDeparture(commute.schedule, now);
+    if (!departure || departure.getTime() - now.getTime() > COMMUTE_LEAD_MINUTES * MINUTE_MS) return null;
+
+    const last = commute.lastCheck;
+    if (last && last.departure === departure.toISOString() &&
+        now.getTime() - Date.parse(last.at) < RECHECK_MINUTES * MINUTE_MS) {
+      return null;
+    }
+    return departure;
+  }
+
+  /**
+   * Alerts for one departure given freshly calculated routes. Each kind is raised at most
+   * once per departure, so `history` holds the alerts already sent for this commute.
+   */
+  static evaluate(
+    commute: Commute,
+    routes: RouteResult[],
+    departure: Date,
+    history: CommuteAlert[],
+    now: Date = new Date()
+  ): CommuteAlert[] {
+    const usual = routes.find(route => route.name === commute.routeName)
+      ?? routes.find(route => route.isRecommended)
+      ?? routes[0];
+    if (!usual) return [];
+
+    const departureIso = departure.toISOString();
+    const alreadySent = (kind: CommuteAlertKind) =>
+      history.some(alert => alert.departure === departureIso && alert.kind === kind);
+    const leaveAt = departure.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: commute.schedule.timeZone });
+
+    const alert = (kind: CommuteAlertKind, message: string, alternative?: RouteResult): CommuteAlert => ({
+      id: `alert_${commute.id}_${now.getTime()}_${kind}`,
+      commuteId: commute.id,
+      ownerId: commute.ownerId,
+      kind,
+      departure: departureIso,
+      message,
+      routeName: usual.name,
+      durationWithTraffic: usual.durationWithTraffic,
+      trafficDelay: usual.trafficDelay,
+      alternativeName: alternative?.name,
+      savings: alternative ? usual.durationWithTraffic - alternative.durationWithTraffic : undefined,
+      browser: commute.browserNotifications,
+      createdAt: now.toISOString()
+    });
+
+    const alerts: CommuteAlert[] = [];
+
+    if (usual.trafficDelay >= commute.delayThresholdMinutes && !alreadySent('delay')) {
+      alerts.push(alert(
+        'delay',
+        `${commute.name} at ${leaveAt}: ${usual.trafficDelay} min of traffic on ${usual.name}, ${usual.durationWithTraffic} min in total`
+      ));
+    }
+
+    const fastest = routes
+      .filter(route => route !== usual)
+      .reduce<RouteResult | null>((best, route) => (!best || route.durationWithTraffic < best.durationWithTraffic ? route : best), null);
+    if (fastest && usual.durationWithTraffic - fastest.durationWithTraffic >= MIN_ALTERNATIVE_SAVINGS_MINUTES && !alreadySent('faster-route')) {
+      alerts.push(alert(
+        'faster-route',
+        `${commute.name} at ${leaveAt}: ${fastest.name} is ${usual.durationWithTraffic - fastest.durationWithTraffic} min faster than ${usual.name}`,
+        fastest
+      ));
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Validate a new commute body
+   */
+  static parseCommute(body: unknown): CommuteInput {
+    const input = (body || {}) as Record<string, unknown>;
+
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new Error('name is required');
+    }
+    const origin = input.origin as Partial<LatLng> | undefined;
+    if (!Number.isFinite(origin?.lat) || !Number.isFinite(origin?.lng) ||
+        Math.abs(origin!.lat!) > 90 || Math.abs(origin!.lng!) > 180) {
+      throw new Error('origin must have a valid lat and lng');
+    }
+    if (typeof input.destination !== 'string' || !input.destination.trim()) {
+      throw new Error('destination is required');
+    }
+    if (input.travelMode !== undefined && !TRAVEL_MODES.includes(input.travelMode as TravelMode)) {
+      throw new Error(`travelMode must be one of: ${TRAVEL_MODES.join(', ')}`);
+    }
+    if (input.routeName !== undefined && typeof input.routeName !== 'string') {
+      throw new Error('routeName must be a string');
+    }
+
+    const schedule = (input.schedule || {}) as Partial<CommuteSchedule>;
+    const days = Array.isArray(schedule.days) ? Array.from(new Set(schedule.days)) : [];
+    if (days.length === 0 || days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('schedule.days must list weekdays from 0 (Sunday) to 6');
+    }
+    if (typeof schedule.time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.time)) {
+      throw new Error('schedule.time must be HH:MM');
+    }
+    if (typeof schedule.timeZone !== 'string' || !isTimeZone(schedule.timeZone)) {
+      throw new Error('schedule.timeZone must be an IANA time zone');
+    }
+
+    const threshold = input.delayThresholdMinutes === undefined ? DEFAULT_DELAY_THRESHOLD_MINUTES : Number(input.delayThresholdMinutes);
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      throw new Error('delayThresholdMinutes must be a positive number');
+    }
+
+    const webhookUrl = input.webhookUrl === undefined || input.webhookUrl === '' ? undefined : parseWebhookUrl(input.webhookUrl);
+
+    return {
+      name: input.name.trim().slice(0, MAX_NAME_LENGTH),
+      origin: { lat: origin!.lat!, lng: origin!.lng! },
+      destination: input.destination.trim(),
+      travelMode: input.travelMode as TravelMode | undefined,
+      routeName: input.routeName?.trim() || undefined,
+      schedule: { days: days.sort((a, b) => a - b), time: schedule.time, timeZone: schedule.timeZone },
+      delayThresholdMinutes: threshold,
+      browserNotifications: input.browserNotifications === true,
+      webhookUrl
+    };
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Directions Format
+ * The distance and duration text routing providers put next to meters and seconds
+ */
+
+export function formatDistance(meters: number): string {
+  return `${(meters / 1609.34).toFixed(1)} mi`;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  return minutes === 1 ? '1 min' : `${minutes} mins`;
+}
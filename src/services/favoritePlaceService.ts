@@ -0,0 +1,37 @@
+/**
+ * Favorite Place Service
+ * Client for the signed-in user's favorite places ("Home", "Work"...) kept by the backend
+ */
+
+import type { FavoritePlace, SaveFavoriteInput } from './savedPlaces';
+import { readJson } from './apiResponse';
+import { AuthService } from './authService';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+export class FavoritePlaceService {
+  static async getFavorites(): Promise<FavoritePlace[]> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/favorites`);
+    const data = await readJson<{ favorites: FavoritePlace[] }>(response, 'Failed to load favorites');
+    return data.favorites;
+  }
+
+  /**
+   * Save a favorite; saving an existing label again moves it to the new address
+   */
+  static async saveFavorite(input: SaveFavoriteInput): Promise<FavoritePlace> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/favorites`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    return readJson<FavoritePlace>(response, 'Failed to save favorite');
+  }
+
+  static async deleteFavorite(id: string): Promise<void> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/favorites/${encodeURIComponent(id)}`, {
+      method: 'DELETE'
+    });
+    await readJson(response, 'Failed to delete favorite');
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Geometry helpers shared by routing, traffic and map code
+ */
+
+import type { LatLng } from './routingProvider';
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance in meters
+ */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function haversineKm(a: LatLng, b: LatLng): number {
+  return haversineMeters(a, b) / 1000;
+}
+
+/**
+ * Initial compass bearing from a to b, in degrees clockwise from north
+ */
+export function bearing(a: LatLng, b: LatLng): number {
+  const lat1 = toRadians(a.lat);
+  const lat2 = toRadians(b.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Encode coordinates as a Google encoded polyline (precision 5)
+ */
+export function encodePolyline(points: LatLng[]): string {
+  let lastLat = 0;
+  let lastLng = 0;
+  let result = '';
+
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    while (v >= 0x20) {
+      result += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    result += String.fromCharCode(v + 63);
+  };
+
+  points.forEach(point => {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    encodeValue(lat - lastLat);
+    encodeValue(lng - lastLng);
+    lastLat = lat;
+    lastLng = lng;
+  });
+
+  return result;
+}
+
+/**
+ * Decode a Google encoded polyline (precision 5) into coordinates
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+/**
+ * Shortest distance in meters from a point to a polyline.
+ * Segments are measured on a local equirectangular projection around the point,
+ * which is accurate to well under a meter at corridor scales (a few km).
+ */
+export function distanceToPolylineMeters(point: LatLng, line: LatLng[]): number {
+  if (line.length === 0) return Infinity;
+  if (line.length === 1) return haversineMeters(point, line[0]);
+
+  const metersPerDegreeLat = EARTH_RADIUS_METERS * Math.PI / 180;
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos(toRadians(point.lat));
+  const toLocal = (p: LatLng) => ({
+    x: (p.lng - point.lng) * metersPerDegreeLng,
+    y: (p.lat - point.lat) * metersPerDegreeLat
+  });
+
+  let closest = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const a = toLocal(line[i - 1]);
+    const b = toLocal(line[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared));
+    closest = Math.min(closest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return closest;
+}
+
+export function boundingBox(points: LatLng[]): BoundingBox | null {
+  if (points.length === 0) return null;
+  return {
+    north: Math.max(...points.map(p => p.lat)),
+    south: Math.min(...points.map(p => p.lat)),
+    east: Math.max(...points.map(p => p.lng)),
+    west: Math.min(...points.map(p => p.lng))
+  };
+}
+
+/**
+ * Grow a box by a distance on every side (e.g. a route corridor)
+ */
+export function expandBoundingBox(box: BoundingBox, meters: number): BoundingBox {
+  const latDelta = meters / EARTH_RADIUS_METERS * 180 / Math.PI;
+  const widestLat = Math.min(89.9, Math.max(Math.abs(box.north), Math.abs(box.south)));
+  const lngDelta = latDelta / Math.cos(toRadians(widestLat));
+  return {
+    north: Math.min(90, box.north + latDelta),
+    south: Math.max(-90, box.south - latDelta),
+    east: Math.min(180, box.east + lngDelta),
+    west: Math.max(-180, box.west - lngDelta)
+  };
+}
+
+/**
+ * Box that contains every point within radiusMeters of center
+ */
+export function boundsAround(center: LatLng, radiusMeters: number): BoundingBox {
+  return expandBoundingBox({ north: center.lat, south: center.lat, east: center.lng, west: center.lng }, radiusMeters);
+}
+
+/**
+ * Geohash cell id for a point; precision 6 cells are roughly 1.2 x 0.6 km
+ */
+export function geohashEncode(point: LatLng, precision: number = 6): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coordinate = evenBit ? point.lng : point.lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (coordinate >= mid) {
+      value = (value << 1) | 1;
+      range[0] = mid;
+    } else {
+      value <<= 1;
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function geohashBounds(hash: string): BoundingBox {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = GEOHASH_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid geohash: ${hash}`);
+    }
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lngRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+      if ((value >> bit) & 1) range[0] = mid; else range[1] = mid;
+      evenBit = !evenBit;
+    }
+  }
+
+  return { north: latRange[1], south: latRange[0], east: lngRange[1], west: lngRange[0] };
+}
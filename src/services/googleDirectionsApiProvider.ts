@@ -0,0 +1,88 @@
+/**
+ * Google Directions web service provider
+ * Server-side counterpart of GoogleMapsService that calls the REST APIs instead of the JS SDK
+ */
+
+import type { DirectionsResult, PlaceResult } from './googleMapsService';
+import type { DirectionsOptions, LatLng, RoutingProvider } from './routingProvider';
+
+const GOOGLE_API_BASE = 'https://maps.googleapis.com/maps/api';
+
+export class GoogleDirectionsApiProvider implements RoutingProvider {
+  readonly name = 'google';
+
+  constructor(private apiKey: string) {
+    if (!apiKey) {
+      throw new Error('Google Maps API key is required for the Directions web service');
+    }
+  }
+
+  async searchPlaces(query: string): Promise<PlaceResult[]> {
+    const params = new URLSearchParams({
+      input: query,
+      inputtype: 'textquery',
+      fields: 'place_id,formatted_address,geometry,name,types',
+      key: this.apiKey
+    });
+
+    const response = await fetch(`${GOOGLE_API_BASE}/place/findplacefromtext/json?${params}`);
+    if (!response.ok) {
+      throw new Error(`Places search failed: ${response.status}`);
+    }
+
+    const json = await response.json();
+    if (json.status !== 'OK') {
+      return [];
+    }
+
+    return (json.candidates || []).map((place: Partial<PlaceResult>) => ({
+      place_id: place.place_id || '',
+      formatted_address: place.formatted_address || place.name || '',
+      geometry: {
+        location: {
+          lat: place.geometry?.location?.lat || 0,
+          lng: place.geometry?.location?.lng || 0
+        }
+      },
+      name: place.name || '',
+      types: place.types || []
+    }));
+  }
+
+  async calculateDirections(
+    origin: LatLng,
+    destination: string,
+    options: DirectionsOptions = {}
+  ): Promise<DirectionsResult> {
+    const params = new URLSearchParams({
+      origin: `${origin.lat},${origin.lng}`,
+      destination,
+      mode: options.travelMode || 'driving',
+      alternatives: String(options.provideRouteAlternatives !== false),
+      departure_time: options.departureTime ? String(Math.floor(options.departureTime.getTime() / 1000)) : 'now',
+      traffic_model: 'best_guess',
+      key: this.apiKey
+    });
+
+    if (options.waypoints && options.waypoints.length > 0) {
+      const prefix = options.optimizeWaypoints ? ['optimize:true'] : [];
+      params.set('waypoints', [...prefix, ...options.waypoints].join('|'));
+    }
+
+    const avoid = [options.avoidTolls && 'tolls', options.avoidHighways && 'highways'].filter(Boolean);
+    if (avoid.length > 0) {
+      params.set('avoid', avoid.join('|'));
+    }
+
+    const response = await fetch(`${GOOGLE_API_BASE}/directions/json?${params}`);
+    if (!response.ok) {
+      throw new Error(`Directions request failed: ${response.status}`);
+    }
+
+    const json = await response.json();
+    return {
+      routes: json.routes || [],
+      status: json.status
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import type { DirectionsOptions, RoutingProvider, TravelMode } from './routingProvider';
+
 export interface GoogleMapsConfig {
   apiKey: string;
   libraries: string[];
@@ -70,8 +72,9 @@ export interface RouteStep {
   travel_mode: string;
 }
 
-export class GoogleMapsService {
+export class GoogleMapsService implements RoutingProvider {
   private static instance: GoogleMapsService;
+  readonly name = 'google';
   private apiKey: string;
   private isLoaded = false;
 
@@ -239,12 +242,7 @@ export class GoogleMapsService {
   async calculateDirections(
     origin: { lat: number; lng: number },
     destination: string,
-    options: {
-      travelMode?: google.maps.TravelMode;
-      avoidHighways?: boolean;
-      avoidTolls?: boolean;
-      provideRouteAlternatives?: boolean;
-    } = {}
+    options: DirectionsOptions = {}
   ): Promise<DirectionsResult> {
     console.log('=== CALCULATING DIRECTIONS ===');
     console.log('Origin:', origin);
@@ -272,12 +270,14 @@ export class GoogleMapsService {
       const request: google.maps.DirectionsRequest = {
         origin: new google.maps.LatLng(origin.lat, origin.lng),
         destination,
-        travelMode: options.travelMode || google.maps.TravelMode.DRIVING,
+        travelMode: this.getTravelMode(options.travelMode),
         avoidHighways: options.avoidHighways || false,
         avoidTolls: options.avoidTolls || false,
-        provideRouteAlternatives: options.provideRouteAlternatives || true,
+        provideRouteAlternatives: options.provideRouteAlternatives ?? true,
+        waypoints: options.waypoints?.map(location => ({ location, stopover: true })),
+        optimizeWaypoints: options.optimizeWaypoints || false,
         drivingOptions: {
-          departureTime: new Date(),
+          departureTime: options.departureTime || new Date(),
           trafficModel: google.maps.TrafficModel.BEST_GUESS
         }
       };
@@ -373,6 +373,15 @@ export class GoogleMapsService {
     });
   }
 
+  private getTravelMode(mode?: TravelMode): google.maps.TravelMode {
+    switch (mode) {
+      case 'walking': return google.maps.TravelMode.WALKING;
+      case 'transit': return google.maps.TravelMode.TRANSIT;
+      case 'bicycling': return google.maps.TravelMode.BICYCLING;
+      default: return google.maps.TravelMode.DRIVING;
+    }
+  }
+
   /**
    * Detects if a string is a Plus Code (Google's Open Location Code)
    * Plus Codes have patterns like: "8Q7X+2F", "FGX6+58X", "G2CX+2G"
@@ -0,0 +1,205 @@
+/**
+ * Google Probe Traffic Source
+ * Infers congestion by timing Google directions from the center to nearby places
+ * and comparing duration in traffic with free-flow duration. Runs on the Maps JS SDK
+ * in the browser and on the Directions web service on the server.
+ */
+
+import { GoogleMapsService, PlaceResult } from './googleMapsService';
+import type { LatLng, RoutingProvider } from './routingProvider';
+import type { TrafficCondition, TrafficSource } from './trafficSource';
+import { decodePolyline, haversineKm } from './geo';
+
+export class GoogleProbeTrafficSource implements TrafficSource {
+  readonly name = 'google-probe';
+
+  constructor(private routing: RoutingProvider = GoogleMapsService.getInstance()) {}
+
+  async fetchConditions(center: LatLng, radius: number): Promise<TrafficCondition[]> {
+    console.log('=== STARTING REAL TRAFFIC FETCH ===');
+    console.log('Center:', center);
+    console.log('Radius:', radius);
+    
+    // Add timeout to prevent infinite loading
+    const timeoutPromise = new Promise<TrafficCondition[]>((_, reject) => {
+      setTimeout(() => reject(new Error('Traffic fetch timeout after 30 seconds')), 30000);
+    });
+    
+    const fetchPromise = (async (): Promise<TrafficCondition[]> => {
+      try {
+        // Find real places around the user instead of using random coordinates
+        const nearbyPlaces = await this.findNearbyPlaces(center, radius);
+        console.log(`Found ${nearbyPlaces.length} real places for traffic analysis`);
+        
+        if (nearbyPlaces.length === 0) {
+          console.log('No nearby places found, cannot get real traffic data');
+          return [];
+        }
+        
+        const conditions: TrafficCondition[] = [];
+        
+        // Test routes to real places to get actual traffic data
+        for (let i = 0; i < Math.min(nearbyPlaces.length, 5); i++) {
+          const place = nearbyPlaces[i];
+          console.log(`Testing route to: ${place.name} (${place.formatted_address})`);
+          
+          // Break early if we already found some traffic data to prevent long waits
+          if (conditions.length >= 3) {
+            console.log('Found sufficient traffic data, stopping early to prevent timeout');
+            break;
+          }
+        
+          try {
+            console.log('Making directions API call to real place...');
+            // Use the place's formatted address as destination (NOT coordinates!)
+            const directionsResult = await this.routing.calculateDirections(
+              center,
+              place.formatted_address, // Use real address instead of coordinates!
+              {
+                provideRouteAlternatives: false
+              }
+            );
+
+            console.log('Directions API response status:', directionsResult.status);
+            console.log('Number of routes:', directionsResult.routes?.length || 0);
+
+            if (directionsResult.status === 'OK' && directionsResult.routes.length > 0) {
+              const route = directionsResult.routes[0];
+              const leg = route.legs[0];
+              
+              console.log('Route summary:', route.summary);
+              console.log('Distance:', leg.distance?.text);
+              console.log('Duration:', leg.duration?.text);
+              console.log('Duration in traffic:', leg.duration_in_traffic?.text);
+              
+              // Only add if we have actual traffic data
+              if (leg.duration && leg.duration_in_traffic) {
+                const normalDuration = leg.duration.value / 60; // Convert to minutes
+                const trafficDuration = leg.duration_in_traffic.value / 60;
+                const delay = Math.max(0, trafficDuration - normalDuration);
+                const severity = this.calculateSeverityFromDelay(delay, normalDuration);
+                
+                console.log(`Traffic analysis: ${delay.toFixed(1)} min delay, severity: ${severity}`);
+                console.log('Adding REAL traffic condition from actual place');
+                
+                // Format the location name to avoid Plus Codes
+                const displayLocation = this.routing instanceof GoogleMapsService
+                  ? this.routing.formatLocationForDisplay(place.formatted_address, place.name)
+                  : place.name || place.formatted_address;
+                
+                conditions.push({
+                  // Keyed by destination so the same probe keeps its id between fetches
+                  id: `${this.name}-${place.place_id || i}`,
+                  location: {
+                    lat: place.geometry.location.lat,
+                    lng: place.geometry.location.lng,
+                    address: displayLocation // Use readable location name
+                  },
+                  severity,
+                  speed: this.calculateSpeedFromDurations(leg.distance.value, leg.duration_in_traffic.value),
+                  duration: Math.round(trafficDuration),
+                  confidence: 95, // High confidence for real Google Maps data
+                  timestamp: new Date(),
+                  predictedDuration: Math.round(trafficDuration + (delay * 0.1)),
+                  affectedRoutes: [route.summary],
+                  source: this.name,
+                  path: decodePolyline(route.overview_polyline.points),
+                  description: `Real traffic to ${displayLocation}: ${severity.charAt(0).toUpperCase() + severity.slice(1)} conditions via ${route.summary}`
+                });
+              } else {
+                console.log('No traffic data available for this route');
+              }
+            } else {
+              console.log('No valid routes returned or bad status');
+            }
+          } catch (routeError) {
+            console.error(`Failed to get route data to ${place.name}:`, routeError);
+            continue;
+          }
+        }
+
+        console.log(`=== REAL TRAFFIC FETCH COMPLETE: Found ${conditions.length} real conditions ===`);
+        return conditions;
+      } catch (error) {
+        console.error('=== REAL TRAFFIC FETCH FAILED ===', error);
+        return [];
+      }
+    })();
+
+    try {
+      // Race between fetch and timeout
+      return await Promise.race([fetchPromise, timeoutPromise]);
+    } catch (error) {
+      console.error('Traffic fetch failed or timed out:', error);
+      return [];
+    }
+  }
+
+  private async findNearbyPlaces(center: LatLng, radius: number): Promise<PlaceResult[]> {
+    console.log('Finding nearby places for traffic analysis...');
+    
+    try {
+      // Search for various types of destinations that would have traffic
+      const searchQueries = [
+        `shopping malls near ${center.lat},${center.lng}`,
+        `hospitals near ${center.lat},${center.lng}`,
+        `schools near ${center.lat},${center.lng}`,
+        `banks near ${center.lat},${center.lng}`,
+        `restaurants near ${center.lat},${center.lng}`,
+        `government offices near ${center.lat},${center.lng}`
+      ];
+      
+      const allPlaces: PlaceResult[] = [];
+      
+      // Try each search query
+      for (const query of searchQueries) {
+        try {
+          console.log('Searching for:', query);
+          const places = await this.routing.searchPlaces(query);
+          
+          // Filter places within our radius (roughly)
+          const nearbyPlaces = places.filter(place => {
+            const distance = haversineKm(center, place.geometry.location);
+            return distance <= radius;
+          });
+          
+          allPlaces.push(...nearbyPlaces);
+          
+          if (allPlaces.length >= 10) break; // Stop when we have enough places
+        } catch (searchError) {
+          console.warn(`Search failed for "${query}":`, searchError);
+          continue;
+        }
+      }
+      
+      // Remove duplicates and limit results
+      const uniquePlaces = allPlaces.filter((place, index, self) => 
+        index === self.findIndex(p => p.place_id === place.place_id)
+      ).slice(0, 8);
+      
+      console.log(`Found ${uniquePlaces.length} unique nearby places:`, 
+        uniquePlaces.map(p => p.name).join(', '));
+      
+      return uniquePlaces;
+      
+    } catch (error) {
+      console.error('Failed to find nearby places:', error);
+      return [];
+    }
+  }
+
+  private calculateSeverityFromDelay(delay: number, normalDuration: number): 'low' | 'moderate' | 'high' | 'severe' {
+    const delayPercentage = (delay / normalDuration) * 100;
+    
+    if (delayPercentage >= 50) return 'severe';
+    if (delayPercentage >= 25) return 'high';
+    if (delayPercentage >= 10) return 'moderate';
+    return 'low';
+  }
+
+  private calculateSpeedFromDurations(distanceMeters: number, durationSeconds: number): number {
+    const distanceMiles = distanceMeters * 0.000621371;
+    const durationHours = durationSeconds / 3600;
+    return Math.round(distanceMiles / durationHours);
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Graph Routing Provider
+ * Deterministic routing over an in-memory road graph, for tests and offline use
+ */
+
+import type { DirectionsResult, GoogleRoute, PlaceResult, RouteStep } from './googleMapsService';
+import type { DirectionsOptions, LatLng, RoutingProvider } from './routingProvider';
+import { bearing, encodePolyline, haversineMeters } from './geo';
+import { formatDistance, formatDuration } from './directionsFormat';
+
+export interface GraphNode {
+  id: string;
+  lat: number;
+  lng: number;
+  name?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  name: string;
+  durationSeconds: number;
+  trafficDurationSeconds?: number;
+  distanceMeters?: number;
+  toll?: boolean;
+  highway?: boolean;
+  oneWay?: boolean;
+}
+
+export interface RoadGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+interface ResolvedEdge extends GraphEdge {
+  distanceMeters: number;
+}
+
+const ALTERNATIVE_PENALTY = 1.4;
+const MAX_EXACT_STOPS = 7;
+
+export class GraphRoutingProvider implements RoutingProvider {
+  readonly name = 'graph';
+  private nodes = new Map<string, GraphNode>();
+  private adjacency = new Map<string, ResolvedEdge[]>();
+
+  constructor(graph: RoadGraph, private maxAlternatives: number = 3) {
+    graph.nodes.forEach(node => {
+      this.nodes.set(node.id, node);
+      this.adjacency.set(node.id, []);
+    });
+
+    graph.edges.forEach(edge => {
+      const from = this.nodes.get(edge.from);
+      const to = this.nodes.get(edge.to);
+      if (!from || !to) {
+        throw new Error(`Edge ${edge.from} -> ${edge.to} references an unknown node`);
+      }
+
+      const resolved = { ...edge, distanceMeters: edge.distanceMeters ?? haversineMeters(from, to) };
+      this.adjacency.get(edge.from)!.push(resolved);
+      if (!edge.oneWay) {
+        this.adjacency.get(edge.to)!.push({ ...resolved, from: edge.to, to: edge.from });
+      }
+    });
+  }
+
+  async searchPlaces(query: string): Promise<PlaceResult[]> {
+    const normalized = query.trim().toLowerCase();
+    const coordinates = /^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/.exec(normalized);
+
+    const matches = coordinates
+      ? [this.nearestNode({ lat: Number(coordinates[1]), lng: Number(coordinates[2]) })]
+      : Array.from(this.nodes.values()).filter(node =>
+          node.id.toLowerCase() === normalized || node.name?.toLowerCase() === normalized
+        );
+
+    return matches.filter((node): node is GraphNode => !!node).map(node => ({
+      place_id: node.id,
+      formatted_address: node.name || node.id,
+      geometry: { location: { lat: node.lat, lng: node.lng } },
+      name: node.name || node.id,
+      types: ['graph_node']
+    }));
+  }
+
+  async calculateDirections(
+    origin: LatLng,
+    destination: string,
+    options: DirectionsOptions = {}
+  ): Promise<DirectionsResult> {
+    const start = this.nearestNode(origin);
+    const targets: PlaceResult[] = [];
+    for (const query of [...(options.waypoints || []), destination]) {
+      const [place] = await this.searchPlaces(query);
+      if (!place) {
+        return { routes: [], status: 'NOT_FOUND' };
+      }
+      targets.push(place);
+    }
+    if (!start) {
+      return { routes: [], status: 'NOT_FOUND' };
+    }
+
+    const usable = (edge: ResolvedEdge) =>
+      !(options.avoidTolls && edge.toll) && !(options.avoidHighways && edge.highway);
+
+    if (targets.length > 1) {
+      return this.calculateMultiStop(start, targets, usable, options.optimizeWaypoints || false);
+    }
+
+    const [target] = targets;
+    const limit = options.provideRouteAlternatives === false ? 1 : this.maxAlternatives;
+    const penalties = new Map<ResolvedEdge, number>();
+    const paths: ResolvedEdge[][] = [];
+
+    for (let attempt = 0; attempt < limit * 2 && paths.length < limit; attempt++) {
+      const path = this.shortestPath(start.id, target.place_id, usable, penalties);
+      if (!path) break;
+
+      const signature = path.map(edge => `${edge.from}>${edge.to}`).join('|');
+      const isDuplicate = paths.some(existing =>
+        existing.map(edge => `${edge.from}>${edge.to}`).join('|') === signature
+      );
+      if (!isDuplicate) {
+        paths.push(path);
+      }
+
+      path.forEach(edge => penalties.set(edge, (penalties.get(edge) ?? 1) * ALTERNATIVE_PENALTY));
+    }
+
+    if (paths.length === 0) {
+      return { routes: [], status: 'ZERO_RESULTS' };
+    }
+
+    return {
+      routes: paths.map(path => this.toDirectionsRoute(start, [{ path, place: target }], [])),
+      status: 'OK'
+    };
+  }
+
+  private calculateMultiStop(
+    start: GraphNode,
+    targets: PlaceResult[],
+    usable: (edge: ResolvedEdge) => boolean,
+    optimize: boolean
+  ): DirectionsResult {
+    const stops = targets.slice(0, -1);
+    const destination = targets[targets.length - 1];
+    const noPenalties = new Map<ResolvedEdge, number>();
+    const cache = new Map<string, ResolvedEdge[] | null>();
+    const pathBetween = (from: string, to: string) => {
+      const key = `${from}>${to}`;
+      if (!cache.has(key)) {
+        cache.set(key, from === to ? [] : this.shortestPath(from, to, usable, noPenalties));
+      }
+      return cache.get(key)!;
+    };
+
+    const orderCost = (order: number[]) => {
+      const sequence = [start.id, ...order.map(index => stops[index].place_id), destination.place_id];
+      let total = 0;
+      for (let i = 1; i < sequence.length; i++) {
+        const path = pathBetween(sequence[i - 1], sequence[i]);
+        if (!path) return Infinity;
+        total += path.reduce((sum, edge) => sum + (edge.trafficDurationSeconds ?? edge.durationSeconds), 0);
+      }
+      return total;
+    };
+
+    const order = optimize
+      ? this.optimizeOrder(stops.length, orderCost)
+      : stops.map((_, index) => index);
+
+    const visited = [...order.map(index => stops[index]), destination];
+    const legs: { path: ResolvedEdge[]; place: PlaceResult }[] = [];
+    let from = start.id;
+    for (const place of visited) {
+      const path = pathBetween(from, place.place_id);
+      if (!path) {
+        return { routes: [], status: 'ZERO_RESULTS' };
+      }
+      legs.push({ path, place });
+      from = place.place_id;
+    }
+
+    return {
+      routes: [this.toDirectionsRoute(start, legs, optimize ? order : [])],
+      status: 'OK'
+    };
+  }
+
+  /**
+   * Exact search over permutations for small stop counts, nearest-neighbour beyond that
+   */
+  private optimizeOrder(count: number, orderCost: (order: number[]) => number): number[] {
+    const indexes = Array.from({ length: count }, (_, index) => index);
+
+    if (count <= MAX_EXACT_STOPS) {
+      let best = indexes;
+      let bestCost = orderCost(indexes);
+      const permute = (prefix: number[], remaining: number[]) => {
+        if (remaining.length === 0) {
+          const cost = orderCost(prefix);
+          if (cost < bestCost) {
+            best = prefix;
+            bestCost = cost;
+          }
+          return;
+        }
+        remaining.forEach((index, position) => {
+          permute([...prefix, index], [...remaining.slice(0, position), ...remaining.slice(position + 1)]);
+        });
+      };
+      permute([], indexes);
+      return best;
+    }
+
+    const order: number[] = [];
+    const remaining = new Set(indexes);
+    while (remaining.size > 0) {
+      let next = -1;
+      let nextCost = Infinity;
+      remaining.forEach(index => {
+        const cost = orderCost([...order, index]);
+        if (cost < nextCost) {
+          next = index;
+          nextCost = cost;
+        }
+      });
+      if (next === -1) next = remaining.values().next().value as number;
+      order.push(next);
+      remaining.delete(next);
+    }
+    return order;
+  }
+
+  private nearestNode(point: LatLng): GraphNode | null {
+    let nearest: GraphNode | null = null;
+    let nearestDistance = Infinity;
+    for (const node of this.nodes.values()) {
+      const distance = haversineMeters(point, node);
+      if (distance < nearestDistance) {
+        nearest = node;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private shortestPath(
+    startId: string,
+    targetId: string,
+    usable: (edge: ResolvedEdge) => boolean,
+    penalties: Map<ResolvedEdge, number>
+  ): ResolvedEdge[] | null {
+    const cost = new Map<string, number>([[startId, 0]]);
+    const previous = new Map<string, ResolvedEdge>();
+    const visited = new Set<string>();
+
+    while (true) {
+      let current: string | null = null;
+      let currentCost = Infinity;
+      for (const [id, value] of cost) {
+        if (visited.has(id)) continue;
+        if (value < currentCost || (value === currentCost && current !== null && id < current)) {
+          current = id;
+          currentCost = value;
+        }
+      }
+
+      if (current === null) return null;
+      if (current === targetId) break;
+      visited.add(current);
+
+      for (const edge of this.adjacency.get(current) || []) {
+        if (!usable(edge) || visited.has(edge.to)) continue;
+        const weight = (edge.trafficDurationSeconds ?? edge.durationSeconds) * (penalties.get(edge) ?? 1);
+        const candidate = currentCost + weight;
+        if (candidate < (cost.get(edge.to) ?? Infinity)) {
+          cost.set(edge.to, candidate);
+          previous.set(edge.to, edge);
+        }
+      }
+    }
+
+    const path: ResolvedEdge[] = [];
+    let node = targetId;
+    while (node !== startId) {
+      const edge = previous.get(node)!;
+      path.unshift(edge);
+      node = edge.from;
+    }
+    return path;
+  }
+
+  private toDirectionsRoute(
+    start: GraphNode,
+    legs: { path: ResolvedEdge[]; place: PlaceResult }[],
+    waypointOrder: number[]
+  ): GoogleRoute {
+    const allEdges = legs.flatMap(leg => leg.path);
+    const points = [start, ...allEdges.map(edge => this.nodes.get(edge.to)!)];
+    const roadNames = allEdges.map(edge => edge.name).filter((name, index, names) => names.indexOf(name) === index);
+
+    return {
+      legs: legs.map((leg, index) => {
+        const distance = leg.path.reduce((sum, edge) => sum + edge.distanceMeters, 0);
+        const duration = leg.path.reduce((sum, edge) => sum + edge.durationSeconds, 0);
+        const hasTraffic = leg.path.some(edge => edge.trafficDurationSeconds !== undefined);
+        const durationInTraffic = leg.path.reduce(
+          (sum, edge) => sum + (edge.trafficDurationSeconds ?? edge.durationSeconds), 0
+        );
+
+        return {
+          distance: { text: formatDistance(distance), value: Math.round(distance) },
+          duration: { text: formatDuration(duration), value: Math.round(duration) },
+          duration_in_traffic: hasTraffic
+            ? { text: formatDuration(durationInTraffic), value: Math.round(durationInTraffic) }
+            : undefined,
+          end_address: leg.place.formatted_address,
+          start_address: index === 0 ? start.name || start.id : legs[index - 1].place.formatted_address,
+          steps: this.buildSteps(leg.path)
+        };
+      }),
+      overview_polyline: { points: encodePolyline(points) },
+      summary: roadNames.slice(0, 2).join(' and '),
+      warnings: allEdges.some(edge => edge.toll) ? ['This route has tolls.'] : [],
+      waypoint_order: waypointOrder
+    };
+  }
+
+  private buildSteps(path: ResolvedEdge[]): RouteStep[] {
+    const steps: RouteStep[] = [];
+    let previousBearing: number | null = null;
+    let previousName: string | null = null;
+
+    path.forEach(edge => {
+      const from = this.nodes.get(edge.from)!;
+      const to = this.nodes.get(edge.to)!;
+      const last = steps[steps.length - 1];
+      const currentBearing = bearing(from, to);
+
+      if (last && previousName === edge.name) {
+        last.distance.value += Math.round(edge.distanceMeters);
+        last.distance.text = formatDistance(last.distance.value);
+        last.duration.value += Math.round(edge.durationSeconds);
+        last.duration.text = formatDuration(last.duration.value);
+        last.end_location = { lat: to.lat, lng: to.lng };
+      } else {
+        steps.push({
+          distance: { text: formatDistance(edge.distanceMeters), value: Math.round(edge.distanceMeters) },
+          duration: { text: formatDuration(edge.durationSeconds), value: Math.round(edge.durationSeconds) },
+          html_instructions: previousBearing === null
+            ? `Head ${compassDirection(currentBearing)} on ${edge.name}`
+            : `${turnDirection(previousBearing, currentBearing)} onto ${edge.name}`,
+          start_location: { lat: from.lat, lng: from.lng },
+          end_location: { lat: to.lat, lng: to.lng },
+          travel_mode: 'DRIVING'
+        });
+      }
+
+      previousBearing = currentBearing;
+      previousName = edge.name;
+    });
+
+    return steps;
+  }
+}
+
+function compassDirection(degrees: number): string {
+  const directions = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+  return directions[Math.round(degrees / 45) % 8];
+}
+
+function turnDirection(fromBearing: number, toBearing: number): string {
+  const delta = ((toBearing - fromBearing + 540) % 360) - 180;
+  if (delta > 30) return 'Turn right';
+  if (delta < -30) return 'Turn left';
+  return 'Continue';
+}
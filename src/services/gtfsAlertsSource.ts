@@ -0,0 +1,219 @@
+/**
+ * GTFS-Realtime Alerts Source
+ * Reads service alerts in the GTFS-RT JSON encoding and places them at the stops they
+ * inform, using the agency's static stops.txt for coordinates.
+ */
+
+import type { LatLng } from './routingProvider';
+import type { Severity } from './predictionEvaluation';
+import type { IncidentCategory, IncidentSource, TrafficIncident } from './trafficIncident';
+import { haversineKm } from './geo';
+
+interface TranslatedString {
+  translation?: { text?: string; language?: string }[];
+}
+
+interface GtfsAlert {
+  active_period?: { start?: number | string; end?: number | string }[];
+  informed_entity?: { stop_id?: string; route_id?: string }[];
+  cause?: string;
+  effect?: string;
+  severity_level?: string;
+  header_text?: TranslatedString;
+  description_text?: TranslatedString;
+}
+
+export interface GtfsStop extends LatLng {
+  name: string;
+}
+
+const EFFECT_SEVERITY: Record<string, Severity> = {
+  NO_SERVICE: 'severe',
+  SIGNIFICANT_DELAYS: 'high',
+  DETOUR: 'moderate',
+  REDUCED_SERVICE: 'moderate'
+};
+
+const LEVEL_SEVERITY: Record<string, Severity> = {
+  SEVERE: 'severe',
+  WARNING: 'high'
+};
+
+// Alert causes reported by the agency; anything else is a disruption with no stated cause
+const CAUSE_CATEGORIES: Record<string, IncidentCategory> = {
+  ACCIDENT: 'accident',
+  TECHNICAL_PROBLEM: 'breakdown',
+  CONSTRUCTION: 'roadworks',
+  MAINTENANCE: 'roadworks',
+  WEATHER: 'weather',
+  POLICE_ACTIVITY: 'hazard',
+  MEDICAL_EMERGENCY: 'hazard',
+  DEMONSTRATION: 'event',
+  HOLIDAY: 'event',
+  STRIKE: 'event'
+};
+
+// Agencies publish alerts themselves
+const ALERT_CONFIDENCE = 90;
+
+const text = (value?: TranslatedString) =>
+  (value?.translation?.find(entry => !entry.language || entry.language.startsWith('en')) || value?.translation?.[0])?.text;
+
+/**
+ * Parse a CSV line, honouring double-quoted fields
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+export class GtfsAlertsSource implements IncidentSource {
+  readonly name = 'gtfs-alerts';
+  private stops: Promise<Map<string, GtfsStop>> | null = null;
+
+  constructor(
+    private readonly alertsUrl: string,
+    private readonly stopsUrl?: string,
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  async fetchIncidents(center: LatLng, radiusKm: number): Promise<TrafficIncident[]> {
+    if (!this.stopsUrl) {
+      throw new Error('GTFS alerts need VITE_GTFS_STOPS_URL to locate the stops they affect');
+    }
+
+    const response = await this.fetchImpl(this.alertsUrl);
+    if (!response.ok) {
+      throw new Error(`GTFS-RT alerts feed returned ${response.status}`);
+    }
+
+    const feed = await response.json();
+    const stops = await this.loadStops();
+    return GtfsAlertsSource.toIncidents(feed, stops, center, radiusKm, this.name);
+  }
+
+  static parseStops(csv: string): Map<string, GtfsStop> {
+    const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+    const header = splitCsvLine(lines[0] || '');
+    const column = (name: string) => header.indexOf(name);
+    const [idColumn, nameColumn, latColumn, lngColumn] = ['stop_id', 'stop_name', 'stop_lat', 'stop_lon'].map(column);
+    if (idColumn === -1 || latColumn === -1 || lngColumn === -1) {
+      throw new Error('stops.txt needs stop_id, stop_lat and stop_lon columns');
+    }
+
+    const stops = new Map<string, GtfsStop>();
+    lines.slice(1).forEach(line => {
+      const fields = splitCsvLine(line);
+      const lat = Number(fields[latColumn]);
+      const lng = Number(fields[lngColumn]);
+      if (!fields[latColumn] || !fields[lngColumn] || !Number.isFinite(lat) || !Number.isFinite(lng)) return;
+      stops.set(fields[idColumn], { lat, lng, name: nameColumn === -1 ? fields[idColumn] : fields[nameColumn] });
+    });
+    return stops;
+  }
+
+  /**
+   * One incident per active alert and nearby informed stop
+   */
+  static toIncidents(
+    feed: unknown,
+    stops: Map<string, GtfsStop>,
+    center: LatLng,
+    radiusKm: number,
+    sourceName: string,
+    now: Date = new Date()
+  ): TrafficIncident[] {
+    const entities = (feed as { entity?: { id?: string; alert?: GtfsAlert }[] })?.entity;
+    if (!Array.isArray(entities)) {
+      throw new Error('GTFS-RT feed has no entity list');
+    }
+    const nowSeconds = now.getTime() / 1000;
+
+    return entities.flatMap(entity => {
+      const alert = entity.alert;
+      const period = alert && this.activePeriod(alert, nowSeconds);
+      if (!alert || !period) return [];
+
+      const severity = (alert.effect && EFFECT_SEVERITY[alert.effect]) ||
+        (alert.severity_level && LEVEL_SEVERITY[alert.severity_level]) || 'low';
+      const routes = [...new Set((alert.informed_entity || []).map(informed => informed.route_id).filter((id): id is string => !!id))];
+      const stopIds = [...new Set((alert.informed_entity || []).map(informed => informed.stop_id).filter((id): id is string => !!id))];
+
+      return stopIds.flatMap((stopId): TrafficIncident[] => {
+        const stop = stops.get(stopId);
+        if (!stop || haversineKm(center, stop) > radiusKm) return [];
+
+        return [{
+          id: `${sourceName}-${entity.id}-${stopId}`,
+          category: (alert.cause && CAUSE_CATEGORIES[alert.cause]) || 'transit-disruption',
+          severity,
+          // Alerts without an active period are known only from the moment we read them
+          startTime: period.start === undefined ? now : new Date(Number(period.start) * 1000),
+          endTime: period.end === undefined ? null : new Date(Number(period.end) * 1000),
+          lanesAffected: null,
+          source: sourceName,
+          geometry: { type: 'Point', coordinates: { lat: stop.lat, lng: stop.lng } },
+          confidence: ALERT_CONFIDENCE,
+          roadName: routes.length > 0 ? `${stop.name} (${routes.join(', ')})` : stop.name,
+          description: text(alert.header_text) || text(alert.description_text)
+        }];
+      });
+    });
+  }
+
+  private static activePeriod(
+    alert: GtfsAlert,
+    nowSeconds: number
+  ): { start?: number | string; end?: number | string } | undefined {
+    const periods = alert.active_period || [];
+    // No active period means the alert applies for as long as it's in the feed
+    if (periods.length === 0) return {};
+
+    return periods.find(period => {
+      const start = period.start === undefined ? -Infinity : Number(period.start);
+      const end = period.end === undefined ? Infinity : Number(period.end);
+      return nowSeconds >= start && nowSeconds < end;
+    });
+  }
+
+  private loadStops(): Promise<Map<string, GtfsStop>> {
+    if (!this.stops) {
+      this.stops = this.fetchImpl(this.stopsUrl as string)
+        .then(response => {
+          if (!response.ok) throw new Error(`GTFS stops returned ${response.status}`);
+          return response.text();
+        })
+        .then(csv => GtfsAlertsSource.parseStops(csv))
+        .catch(error => {
+          // Let the next fetch retry rather than caching the failure
+          this.stops = null;
+          throw error;
+        });
+    }
+    return this.stops;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Guidance Service
+ * Tracks progress along a RouteResult's steps from position updates and
+ * detects when the driver has left the route.
+ */
+
+import type { RouteResult, RouteStep } from './routeService';
+import type { LatLng } from './routingProvider';
+import { decodePolyline, distanceToPolylineMeters, haversineMeters } from './geo';
+
+export interface GuidanceState {
+  stepIndex: number;
+  currentStep: RouteStep;
+  nextStep: RouteStep | null;
+  distanceToManeuverMeters: number;
+  offRouteMeters: number;
+  isOffRoute: boolean;
+  hasArrived: boolean;
+}
+
+// Within this distance of a step's end the maneuver counts as done
+const MANEUVER_RADIUS_METERS = 30;
+// Farther than this from the route polyline counts as a deviation
+const OFF_ROUTE_METERS = 60;
+// GPS jitter can put single fixes off the road; require consecutive deviations
+const OFF_ROUTE_FIXES = 3;
+// How many upcoming steps to consider when the driver skips ahead
+const STEP_LOOKAHEAD = 3;
+
+export class GuidanceSession {
+  private readonly steps: RouteStep[];
+  private readonly geometry: LatLng[];
+  private stepIndex = 0;
+  private offRouteFixes = 0;
+
+  constructor(route: RouteResult) {
+    if (!route.steps || route.steps.length === 0) {
+      throw new Error('This route has no turn-by-turn steps');
+    }
+    this.steps = route.steps;
+    this.geometry = route.polyline
+      ? decodePolyline(route.polyline)
+      : route.steps.flatMap(step => [step.startLocation, step.endLocation]);
+  }
+
+  update(position: LatLng): GuidanceState {
+    this.advance(position);
+
+    const offRouteMeters = distanceToPolylineMeters(position, this.geometry);
+    this.offRouteFixes = offRouteMeters > OFF_ROUTE_METERS ? this.offRouteFixes + 1 : 0;
+
+    const currentStep = this.steps[this.stepIndex];
+    const isLastStep = this.stepIndex === this.steps.length - 1;
+    const distanceToManeuverMeters = haversineMeters(position, currentStep.endLocation);
+
+    return {
+      stepIndex: this.stepIndex,
+      currentStep,
+      nextStep: isLastStep ? null : this.steps[this.stepIndex + 1],
+      distanceToManeuverMeters,
+      offRouteMeters,
+      isOffRoute: this.offRouteFixes >= OFF_ROUTE_FIXES,
+      hasArrived: isLastStep && distanceToManeuverMeters <= MANEUVER_RADIUS_METERS
+    };
+  }
+
+  /**
+   * Move to the step the driver is on: past any maneuver point they have reached,
+   * or to a later step whose segment is clearly closer than the current one
+   */
+  private advance(position: LatLng): void {
+    while (
+      this.stepIndex < this.steps.length - 1 &&
+      haversineMeters(position, this.steps[this.stepIndex].endLocation) <= MANEUVER_RADIUS_METERS
+    ) {
+      this.stepIndex++;
+    }
+
+    const segmentDistance = (step: RouteStep) => distanceToPolylineMeters(position, [step.startLocation, step.endLocation]);
+    const currentDistance = segmentDistance(this.steps[this.stepIndex]);
+    const lastCandidate = Math.min(this.steps.length - 1, this.stepIndex + STEP_LOOKAHEAD);
+
+    for (let index = this.stepIndex + 1; index <= lastCandidate; index++) {
+      const distance = segmentDistance(this.steps[index]);
+      if (distance <= MANEUVER_RADIUS_METERS && distance < currentDistance) {
+        this.stepIndex = index;
+        break;
+      }
+    }
+  }
+}
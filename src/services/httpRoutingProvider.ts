@@ -0,0 +1,332 @@
+/**
+ * HTTP Routing Provider
+ * Talks to a self-hosted OSRM or Valhalla server and a Nominatim-compatible geocoder.
+ */
+
+import type { DirectionsResult, GoogleRoute, PlaceResult, RouteStep } from './googleMapsService';
+import type { DirectionsOptions, LatLng, RoutingProvider, TravelMode } from './routingProvider';
+import { formatDistance, formatDuration } from './directionsFormat';
+
+export interface HttpRoutingProviderOptions {
+  baseUrl: string;
+  flavor?: 'osrm' | 'valhalla';
+  geocoderUrl?: string;
+  name?: string;
+  fetch?: typeof fetch;
+}
+
+// The subset of an OSRM route response (also what Valhalla returns with format=osrm) that's read
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name?: string;
+  mode?: string;
+  maneuver?: { type?: string; modifier?: string; instruction?: string; exit?: number; location?: [number, number] };
+  intersections?: { location?: [number, number]; classes?: string[] }[];
+}
+
+interface OsrmLeg {
+  distance: number;
+  duration: number;
+  summary?: string;
+  steps?: OsrmStep[];
+}
+
+interface OsrmRoute {
+  geometry?: unknown;
+  legs?: OsrmLeg[];
+}
+
+interface OsrmWaypoint {
+  waypoint_index: number;
+}
+
+interface NominatimResult {
+  place_id?: number | string;
+  osm_id?: number | string;
+  lat: string;
+  lon: string;
+  display_name?: string;
+  name?: string;
+  category?: string;
+  type?: string;
+}
+
+interface ProviderResponse {
+  status: string;
+  routes: OsrmRoute[];
+  waypointOrder?: number[];
+}
+
+const OSRM_PROFILES: Partial<Record<TravelMode, string>> = {
+  driving: 'driving',
+  walking: 'foot',
+  bicycling: 'bike'
+};
+
+const VALHALLA_COSTING: Record<TravelMode, string> = {
+  driving: 'auto',
+  walking: 'pedestrian',
+  bicycling: 'bicycle',
+  transit: 'multimodal'
+};
+
+const OSRM_STATUS: Record<string, string> = {
+  Ok: 'OK',
+  NoRoute: 'ZERO_RESULTS',
+  NoSegment: 'NOT_FOUND',
+  TooBig: 'MAX_WAYPOINTS_EXCEEDED',
+  InvalidQuery: 'INVALID_REQUEST',
+  InvalidValue: 'INVALID_REQUEST',
+  InvalidOptions: 'INVALID_REQUEST'
+};
+
+const VALHALLA_STATUS: Record<number, string> = {
+  171: 'NOT_FOUND',
+  442: 'ZERO_RESULTS',
+  443: 'ZERO_RESULTS',
+  150: 'MAX_WAYPOINTS_EXCEEDED',
+  154: 'ZERO_RESULTS'
+};
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+export class HttpRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly flavor: 'osrm' | 'valhalla';
+  private readonly geocoderUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly geocodeCache = new Map<string, PlaceResult[]>();
+
+  constructor(options: HttpRoutingProviderOptions) {
+    if (!options?.baseUrl) {
+      throw new Error('Routing provider baseUrl is required');
+    }
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.flavor = options.flavor === 'valhalla' ? 'valhalla' : 'osrm';
+    this.geocoderUrl = options.geocoderUrl ? options.geocoderUrl.replace(/\/+$/, '') : '';
+    this.fetchImpl = options.fetch || ((...args) => fetch(...args));
+    this.name = options.name || this.flavor;
+  }
+
+  async searchPlaces(query: string): Promise<PlaceResult[]> {
+    const coordinates = COORDINATE_PATTERN.exec(query);
+    if (coordinates) {
+      const lat = Number(coordinates[1]);
+      const lng = Number(coordinates[2]);
+      return [{
+        place_id: `${lat},${lng}`,
+        formatted_address: `${lat},${lng}`,
+        geometry: { location: { lat, lng } },
+        name: `${lat},${lng}`,
+        types: ['coordinates']
+      }];
+    }
+
+    if (!this.geocoderUrl) {
+      throw new Error('No geocoder configured for the routing provider. Pass coordinates as "lat,lng" or set a geocoder URL.');
+    }
+
+    const cached = this.geocodeCache.get(query);
+    if (cached) return cached;
+
+    const url = `${this.geocoderUrl}/search?format=jsonv2&limit=5&q=${encodeURIComponent(query)}`;
+    const response = await this.fetchImpl(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Geocoding failed: ${response.status}`);
+    }
+
+    const results = await response.json();
+    const places = (Array.isArray(results) ? results as NominatimResult[] : []).map(result => ({
+      place_id: String(result.place_id ?? result.osm_id ?? `${result.lat},${result.lon}`),
+      formatted_address: result.display_name || result.name || '',
+      geometry: {
+        location: { lat: Number(result.lat), lng: Number(result.lon) }
+      },
+      name: result.name || String(result.display_name || '').split(',')[0],
+      types: [result.category, result.type].filter((type): type is string => Boolean(type))
+    }));
+
+    this.geocodeCache.set(query, places);
+    return places;
+  }
+
+  async calculateDirections(
+    origin: LatLng,
+    destination: string,
+    options: DirectionsOptions = {}
+  ): Promise<DirectionsResult> {
+    const queries = [...(options.waypoints || []), destination];
+    const resolved: PlaceResult[] = [];
+    for (const query of queries) {
+      const places = await this.searchPlaces(query);
+      if (places.length === 0) {
+        return { routes: [], status: 'NOT_FOUND' };
+      }
+      resolved.push(places[0]);
+    }
+
+    const stops = [origin, ...resolved.map(place => place.geometry.location)];
+    const optimize = Boolean(options.optimizeWaypoints) && resolved.length > 2;
+    const body = this.flavor === 'valhalla'
+      ? await this.requestValhalla(stops, options, optimize)
+      : await this.requestOsrm(stops, options, optimize);
+
+    if (body.status !== 'OK') {
+      return { routes: [], status: body.status };
+    }
+
+    const waypointOrder = body.waypointOrder || resolved.slice(0, -1).map((_, index) => index);
+    const visited = [...waypointOrder.map(index => resolved[index]), resolved[resolved.length - 1]];
+
+    return {
+      routes: body.routes.map(route => this.toDirectionsRoute(route, visited.map(place => place.formatted_address), waypointOrder)),
+      status: 'OK'
+    };
+  }
+
+  private async requestOsrm(stops: LatLng[], options: DirectionsOptions, optimize: boolean): Promise<ProviderResponse> {
+    const mode = options.travelMode || 'driving';
+    const profile = OSRM_PROFILES[mode];
+    if (!profile) {
+      return { status: 'ZERO_RESULTS', routes: [] };
+    }
+
+    const params = new URLSearchParams({
+      steps: 'true',
+      overview: 'full',
+      geometries: 'polyline'
+    });
+    if (optimize) {
+      params.set('source', 'first');
+      params.set('destination', 'last');
+      params.set('roundtrip', 'false');
+    } else {
+      params.set('alternatives', options.provideRouteAlternatives === false || stops.length > 2 ? 'false' : 'true');
+    }
+    const exclude = [options.avoidTolls && 'toll', options.avoidHighways && 'motorway'].filter(Boolean);
+    if (exclude.length > 0) {
+      params.set('exclude', exclude.join(','));
+    }
+
+    const service = optimize ? 'trip' : 'route';
+    const coordinates = stops.map(stop => `${stop.lng},${stop.lat}`).join(';');
+    const response = await this.fetchImpl(`${this.baseUrl}/${service}/v1/${profile}/${coordinates}?${params}`);
+    if (response.status === 429) {
+      return { status: 'OVER_QUERY_LIMIT', routes: [] };
+    }
+
+    const json = await response.json();
+    return {
+      status: OSRM_STATUS[json.code] || 'UNKNOWN_ERROR',
+      routes: (optimize ? json.trips : json.routes) || [],
+      waypointOrder: optimize ? tripWaypointOrder(json.waypoints) : undefined
+    };
+  }
+
+  private async requestValhalla(stops: LatLng[], options: DirectionsOptions, optimize: boolean): Promise<ProviderResponse> {
+    const costing = VALHALLA_COSTING[options.travelMode || 'driving'];
+    const costingOptions = costing === 'auto'
+      ? { auto: { use_tolls: options.avoidTolls ? 0 : 0.5, use_highways: options.avoidHighways ? 0 : 1 } }
+      : undefined;
+
+    const response = await this.fetchImpl(`${this.baseUrl}/${optimize ? 'optimized_route' : 'route'}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        locations: stops.map(stop => ({ lat: stop.lat, lon: stop.lng })),
+        costing,
+        costing_options: costingOptions,
+        alternates: options.provideRouteAlternatives === false || stops.length > 2 ? 0 : 2,
+        format: 'osrm',
+        shape_format: 'polyline5',
+        directions_options: { units: 'kilometers' }
+      })
+    });
+    if (response.status === 429) {
+      return { status: 'OVER_QUERY_LIMIT', routes: [] };
+    }
+
+    const json = await response.json();
+    if (!response.ok) {
+      return { status: VALHALLA_STATUS[json.error_code] || 'INVALID_REQUEST', routes: [] };
+    }
+
+    return {
+      status: OSRM_STATUS[json.code] || 'OK',
+      routes: (optimize ? json.trips : json.routes) || [],
+      waypointOrder: optimize ? tripWaypointOrder(json.waypoints) : undefined
+    };
+  }
+
+  private toDirectionsRoute(route: OsrmRoute, legAddresses: string[], waypointOrder: number[]): GoogleRoute {
+    const legs = (route.legs || []).map((leg, index) => ({
+      distance: { text: formatDistance(leg.distance), value: Math.round(leg.distance) },
+      duration: { text: formatDuration(leg.duration), value: Math.round(leg.duration) },
+      end_address: legAddresses[index] || '',
+      start_address: index > 0 ? legAddresses[index - 1] || '' : '',
+      steps: (leg.steps || []).map(step => this.toDirectionsStep(step))
+    }));
+
+    const summary = (route.legs || []).map(leg => leg.summary).filter(Boolean).join(', ');
+    const hasTolls = (route.legs || []).some(leg => (leg.steps || []).some(step =>
+      (step.intersections || []).some(intersection => (intersection.classes || []).includes('toll'))
+    ));
+
+    return {
+      legs,
+      overview_polyline: { points: typeof route.geometry === 'string' ? route.geometry : '' },
+      summary,
+      warnings: hasTolls ? ['This route has tolls.'] : [],
+      waypoint_order: waypointOrder
+    };
+  }
+
+  private toDirectionsStep(step: OsrmStep): RouteStep {
+    const [startLng, startLat] = step.maneuver?.location || [0, 0];
+    const intersections = step.intersections || [];
+    const last = intersections[intersections.length - 1]?.location || step.maneuver?.location || [0, 0];
+
+    return {
+      distance: { text: formatDistance(step.distance), value: Math.round(step.distance) },
+      duration: { text: formatDuration(step.duration), value: Math.round(step.duration) },
+      html_instructions: step.maneuver?.instruction || describeManeuver(step),
+      start_location: { lat: startLat, lng: startLng },
+      end_location: { lat: last[1], lng: last[0] },
+      travel_mode: String(step.mode || 'driving').toUpperCase()
+    };
+  }
+}
+
+/**
+ * Trip responses list input waypoints with their visiting position; convert that
+ * into Google's waypoint_order (intermediate stops only, as input indexes)
+ */
+function tripWaypointOrder(waypoints: OsrmWaypoint[] = []): number[] {
+  return waypoints
+    .slice(1, -1)
+    .map((waypoint, index) => ({ index, position: waypoint.waypoint_index }))
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.index);
+}
+
+function describeManeuver(step: OsrmStep): string {
+  const { type, modifier } = step.maneuver || {};
+  const road = step.name ? ` onto ${step.name}` : '';
+  const direction = modifier ? ` ${modifier}` : '';
+
+  switch (type) {
+    case 'depart': return step.name ? `Head out on ${step.name}` : 'Head out';
+    case 'arrive': return 'Arrive at your destination';
+    case 'turn':
+    case 'end of road': return `Turn${direction}${road}`;
+    case 'merge': return `Merge${direction}${road}`;
+    case 'on ramp': return `Take the ramp${road}`;
+    case 'off ramp': return `Take the exit${road}`;
+    case 'fork': return `Keep${direction} at the fork${road}`;
+    case 'roundabout':
+    case 'rotary': return `Enter the roundabout and take exit ${step.maneuver?.exit || 1}${road}`;
+    default: return `Continue${road}`;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Incident Feed Source
+ * Reads a road-authority incident feed, either DATEX II XML (situation records with
+ * point coordinates) or GeoJSON (Point/LineString features), detected from the body.
+ */
+
+import type { LatLng } from './routingProvider';
+import type { Severity } from './predictionEvaluation';
+import { incidentPoints, IncidentCategory, IncidentGeometry, IncidentSource, TrafficIncident } from './trafficIncident';
+import { haversineKm } from './geo';
+
+// DATEX II severity enumeration (overallSeverity / severity)
+const DATEX_SEVERITY: Record<string, Severity> = {
+  highest: 'severe',
+  high: 'high',
+  medium: 'moderate',
+  low: 'low',
+  lowest: 'low'
+};
+
+// Free-form severities seen in GeoJSON incident feeds
+const GEOJSON_SEVERITY: Record<string, Severity> = {
+  ...DATEX_SEVERITY,
+  critical: 'severe',
+  major: 'severe',
+  severe: 'severe',
+  moderate: 'moderate',
+  minor: 'low'
+};
+
+// DATEX II situation record types (xsi:type)
+const DATEX_CATEGORIES: Record<string, IncidentCategory> = {
+  Accident: 'accident',
+  VehicleObstruction: 'breakdown',
+  MaintenanceWorks: 'roadworks',
+  ConstructionWorks: 'roadworks',
+  Roadworks: 'roadworks',
+  RoadOrCarriagewayOrLaneManagement: 'closure',
+  AbnormalTraffic: 'congestion',
+  AnimalPresenceObstruction: 'hazard',
+  EnvironmentalObstruction: 'hazard',
+  GeneralObstruction: 'hazard',
+  InfrastructureDamageObstruction: 'hazard',
+  NonWeatherRelatedRoadConditions: 'hazard',
+  PoorEnvironmentConditions: 'weather',
+  WeatherRelatedRoadConditions: 'weather',
+  PublicEvent: 'event',
+  DisturbanceActivity: 'event'
+};
+
+// Category names and synonyms seen in GeoJSON incident feeds
+const GEOJSON_CATEGORIES: Record<string, IncidentCategory> = {
+  accident: 'accident',
+  crash: 'accident',
+  collision: 'accident',
+  breakdown: 'breakdown',
+  roadworks: 'roadworks',
+  construction: 'roadworks',
+  maintenance: 'roadworks',
+  closure: 'closure',
+  'road closed': 'closure',
+  congestion: 'congestion',
+  jam: 'congestion',
+  hazard: 'hazard',
+  obstruction: 'hazard',
+  weather: 'weather',
+  event: 'event'
+};
+
+const tagText = (xml: string, tag: string) =>
+  new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`).exec(xml)?.[1]?.trim();
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+const parseDate = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(typeof value === 'number' ? value : String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const parseCount = (value: unknown) => {
+  const count = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isInteger(count) && count >= 0 ? count : null;
+};
+
+// Feeds rarely say how sure they are; an authority-published incident is taken as reliable
+const FEED_CONFIDENCE = 90;
+
+export class IncidentFeedSource implements IncidentSource {
+  readonly name = 'incident-feed';
+
+  constructor(private readonly url: string, private readonly fetchImpl: typeof fetch = (...args) => fetch(...args)) {}
+
+  async fetchIncidents(center: LatLng, radiusKm: number): Promise<TrafficIncident[]> {
+    const response = await this.fetchImpl(this.url);
+    if (!response.ok) {
+      throw new Error(`Incident feed returned ${response.status}`);
+    }
+
+    return IncidentFeedSource.parse(await response.text(), this.name)
+      .filter(incident => incidentPoints(incident).some(point => haversineKm(center, point) <= radiusKm));
+  }
+
+  /**
+   * Incidents from a DATEX II or GeoJSON document; records without a start time are
+   * taken to have started when the feed was read
+   */
+  static parse(body: string, sourceName: string, now: Date = new Date()): TrafficIncident[] {
+    return body.trimStart().startsWith('<')
+      ? this.parseDatex(body, sourceName, now)
+      : this.parseGeoJson(JSON.parse(body), sourceName, now);
+  }
+
+  static parseDatex(xml: string, sourceName: string, now: Date = new Date()): TrafficIncident[] {
+    const situations = [...xml.matchAll(/<(?:\w+:)?situation\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?situation>/g)];
+    // Some publications carry bare situation records without the enclosing situation
+    const blocks = situations.length > 0 ? situations.map(match => match[2]) : [xml];
+
+    return blocks.flatMap(block => {
+      const overallSeverity = tagText(block, 'overallSeverity');
+
+      return [...block.matchAll(/<(?:\w+:)?situationRecord\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?situationRecord>/g)]
+        .map((match): TrafficIncident | null => {
+          const attributes = match[1];
+          const record = match[2];
+          const lat = Number(tagText(record, 'latitude'));
+          const lng = Number(tagText(record, 'longitude'));
+          if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+          const severity = (tagText(record, 'severity') || overallSeverity || '').toLowerCase();
+          const type = /xsi:type="(?:\w+:)?(\w+)"/.exec(attributes)?.[1] || '';
+          const comment = /<(?:\w+:)?comment\b[\s\S]*?<(?:\w+:)?value\b[^>]*>([^<]+)</.exec(record)?.[1];
+
+          return {
+            id: `${sourceName}-${/\bid="([^"]+)"/.exec(attributes)?.[1] || `${lat},${lng}`}`,
+            category: DATEX_CATEGORIES[type] || 'other',
+            severity: DATEX_SEVERITY[severity] || 'low',
+            startTime: parseDate(tagText(record, 'overallStartTime')) ||
+              parseDate(tagText(record, 'situationRecordCreationTime')) || now,
+            endTime: parseDate(tagText(record, 'overallEndTime')),
+            lanesAffected: parseCount(tagText(record, 'numberOfLanesRestricted')),
+            source: sourceName,
+            geometry: { type: 'Point', coordinates: { lat, lng } },
+            confidence: FEED_CONFIDENCE,
+            roadName: tagText(record, 'roadName') || tagText(record, 'roadNumber'),
+            // Fall back to the record type, AbnormalTraffic -> Abnormal Traffic
+            description: comment ? decodeXml(comment.trim()) : type.replace(/([a-z])([A-Z])/g, '$1 $2') || undefined
+          };
+        })
+        .filter((incident): incident is TrafficIncident => incident !== null);
+    });
+  }
+
+  static parseGeoJson(document: unknown, sourceName: string, now: Date = new Date()): TrafficIncident[] {
+    const features = (document as { features?: unknown })?.features;
+    if (!Array.isArray(features)) {
+      throw new Error('GeoJSON incident feed must be a FeatureCollection');
+    }
+
+    return features.flatMap((feature, index) => {
+      const geometry = this.toGeometry(feature?.geometry);
+      if (!geometry) return [];
+
+      const properties = feature?.properties || {};
+      const severity = String(properties.severity ?? '').toLowerCase();
+      const category = String(properties.category ?? properties.type ?? '').toLowerCase();
+
+      return [{
+        id: `${sourceName}-${feature.id ?? properties.id ?? index}`,
+        category: GEOJSON_CATEGORIES[category] || 'other',
+        severity: GEOJSON_SEVERITY[severity] || 'low',
+        startTime: parseDate(properties.startTime ?? properties.start) || now,
+        endTime: parseDate(properties.endTime ?? properties.end),
+        lanesAffected: parseCount(properties.lanesAffected ?? properties.lanesClosed),
+        source: sourceName,
+        geometry,
+        confidence: FEED_CONFIDENCE,
+        roadName: properties.road ?? properties.roadName,
+        description: properties.description ?? properties.title
+      }];
+    });
+  }
+
+  /**
+   * GeoJSON positions are [lng, lat]; multi-lines keep their first line
+   */
+  private static toGeometry(geometry: { type?: string; coordinates?: unknown } | undefined): IncidentGeometry | null {
+    const toPoint = (position: unknown): LatLng | null =>
+      Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1])
+        ? { lat: position[1], lng: position[0] }
+        : null;
+    const toLine = (positions: unknown) => {
+      const points = Array.isArray(positions) ? positions.map(toPoint) : [];
+      return points.length > 0 && points.every(point => point !== null) ? points as LatLng[] : null;
+    };
+
+    if (geometry?.type === 'Point') {
+      const point = toPoint(geometry.coordinates);
+      return point ? { type: 'Point', coordinates: point } : null;
+    }
+    const line = geometry?.type === 'LineString' ? toLine(geometry.coordinates)
+      : geometry?.type === 'MultiLineString' && Array.isArray(geometry.coordinates) ? toLine(geometry.coordinates[0])
+      : null;
+    return line ? { type: 'LineString', coordinates: line } : null;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Incident Report Service
+ * Client for the crowdsourced incident report endpoints, and the IncidentSource that
+ * feeds confirmed reports into TrafficService.
+ */
+
+import type { LatLng } from './routingProvider';
+import type { IncidentSource, TrafficIncident } from './trafficIncident';
+import { PublicIncidentReport, ReportType, ReportVote, reportToIncident } from './incidentReports';
+import { readJson } from './apiResponse';
+import { AuthService } from './authService';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+export class IncidentReportService {
+  static async getReports(location: LatLng, radiusKm: number = 10): Promise<PublicIncidentReport[]> {
+    const params = new URLSearchParams({ lat: String(location.lat), lng: String(location.lng), radiusKm: String(radiusKm) });
+    const url = `${API_URL}/api/incidents/reports?${params}`;
+    // Signed-in callers learn which reports are their own
+    const response = await (AuthService.getSession() ? AuthService.authorizedFetch(url) : fetch(url));
+    const data = await readJson<{ reports: PublicIncidentReport[] }>(response, 'Failed to load incident reports');
+    return data.reports;
+  }
+
+  /**
+   * Report as the signed-in user
+   */
+  static async submitReport(input: {
+    type: ReportType;
+    location: LatLng;
+    note?: string;
+  }): Promise<PublicIncidentReport> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/incidents/reports`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    const report = await readJson<PublicIncidentReport>(response, 'Failed to submit report');
+    console.log('🚧 Incident reported:', report.id);
+    return report;
+  }
+
+  static async vote(
+    reportId: string,
+    input: { vote: ReportVote; location: LatLng }
+  ): Promise<PublicIncidentReport> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/incidents/reports/${encodeURIComponent(reportId)}/votes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    return readJson<PublicIncidentReport>(response, 'Failed to record vote');
+  }
+}
+
+/**
+ * Confirmed user reports as incidents
+ */
+export class IncidentReportSource implements IncidentSource {
+  readonly name = 'user-report';
+
+  async fetchIncidents(center: LatLng, radiusKm: number): Promise<TrafficIncident[]> {
+    const reports = await IncidentReportService.getReports(center, radiusKm);
+    return reports
+      .filter(report => report.status === 'confirmed')
+      .map(report => reportToIncident(report, this.name));
+  }
+}
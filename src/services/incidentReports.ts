@@ -0,0 +1,193 @@
+/**
+ * Incident Reports
+ * What users report seeing on the road, and how confident we are in each report:
+ * the reporter and every confirmation count for it, dismissals count against it,
+ * and every vote loses half its weight each half-life so unconfirmed reports expire.
+ */
+
+import type { LatLng } from './routingProvider';
+import type { Severity } from './predictionEvaluation';
+import type { IncidentCategory, TrafficIncident } from './trafficIncident';
+import { haversineKm } from './geo';
+
+export type ReportType = Exclude<IncidentCategory, 'transit-disruption' | 'other'>;
+
+export type ReportVote = 'confirm' | 'dismiss';
+
+export type ReportStatus = 'pending' | 'confirmed' | 'expired';
+
+export interface IncidentReport {
+  id: string;
+  type: ReportType;
+  location: LatLng;
+  note?: string;
+  reporterId: string;
+  createdAt: string; // ISO
+  votes: { voterId: string; vote: ReportVote; at: string }[];
+}
+
+export interface ScoredIncidentReport extends IncidentReport {
+  confidence: number; // 0-100
+  confirmations: number;
+  dismissals: number;
+  status: ReportStatus;
+  expiresAt: string; // when confidence falls below the expiry level if nobody votes again
+}
+
+// What the API and 0G archives show: counts and status, never who reported or voted
+export type PublicIncidentReport = Omit<ScoredIncidentReport, 'reporterId' | 'votes'> & {
+  mine?: boolean; // set for signed-in callers: whether they filed the report
+};
+
+export const REPORT_TYPES: ReportType[] = [
+  'accident',
+  'breakdown',
+  'roadworks',
+  'closure',
+  'congestion',
+  'hazard',
+  'weather',
+  'event'
+];
+
+export const REPORT_HALF_LIFE_MINUTES = 30;
+// Voters must be this close to what they confirm or dismiss
+export const VOTE_RADIUS_KM = 2;
+export const MAX_NOTE_LENGTH = 280;
+// Votes one account can cast in an hour, across all reports
+export const MAX_VOTES_PER_HOUR = 30;
+
+// Confirmed needs someone besides the reporter to agree and the balance to still favor the report
+const MIN_CONFIRMATIONS = 1;
+const CONFIRMED_CONFIDENCE = 50;
+const EXPIRED_CONFIDENCE = 10;
+const MINUTE_MS = 60 * 1000;
+
+// Reports carry no severity of their own; this is how much each kind usually slows traffic
+const REPORT_SEVERITY: Record<ReportType, Severity> = {
+  closure: 'severe',
+  accident: 'high',
+  congestion: 'high',
+  breakdown: 'moderate',
+  roadworks: 'moderate',
+  hazard: 'moderate',
+  weather: 'moderate',
+  event: 'moderate'
+};
+
+const weight = (at: string, now: number) => 0.5 ** (Math.max(0, now - Date.parse(at)) / (REPORT_HALF_LIFE_MINUTES * MINUTE_MS));
+
+const isLatLng = (value: unknown): value is LatLng => {
+  const { lat, lng } = (value || {}) as Partial<LatLng>;
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat as number) <= 90 && Math.abs(lng as number) <= 180;
+};
+
+export class IncidentReportScoring {
+  static score(report: IncidentReport, now: Date = new Date()): ScoredIncidentReport {
+    const time = now.getTime();
+    const confirms = report.votes.filter(vote => vote.vote === 'confirm');
+    const dismissals = report.votes.filter(vote => vote.vote === 'dismiss');
+
+    // The reporter is the first confirmation; the +1 keeps a lone report from starting at 100
+    const support = weight(report.createdAt, time) + confirms.reduce((sum, vote) => sum + weight(vote.at, time), 0);
+    const against = dismissals.reduce((sum, vote) => sum + weight(vote.at, time), 0);
+    const confidence = Math.round(100 * support / (support + against + 1));
+
+    // Support and opposition decay at the same rate, so the decay horizon solves
+    // 2^-t * support / (2^-t * (support + against) + 1) = EXPIRED_CONFIDENCE / 100
+    const threshold = EXPIRED_CONFIDENCE / 100;
+    const factor = threshold / (support - threshold * (support + against));
+    const halfLives = factor > 0 && factor < 1 ? -Math.log2(factor) : 0;
+
+    const status: ReportStatus = confidence < EXPIRED_CONFIDENCE ? 'expired'
+      : confirms.length >= MIN_CONFIRMATIONS && confidence >= CONFIRMED_CONFIDENCE ? 'confirmed'
+      : 'pending';
+
+    return {
+      ...report,
+      confidence,
+      confirmations: confirms.length,
+      dismissals: dismissals.length,
+      status,
+      expiresAt: new Date(time + halfLives * REPORT_HALF_LIFE_MINUTES * MINUTE_MS).toISOString()
+    };
+  }
+
+  /**
+   * Drop reporter and voter ids; `mine` is only set when a viewer is given
+   */
+  static toPublic(report: PublicIncidentReport & { reporterId?: string }, viewerId?: string): PublicIncidentReport {
+    return {
+      id: report.id,
+      type: report.type,
+      location: report.location,
+      note: report.note,
+      createdAt: report.createdAt,
+      confidence: report.confidence,
+      confirmations: report.confirmations,
+      dismissals: report.dismissals,
+      status: report.status,
+      expiresAt: report.expiresAt,
+      ...(viewerId ? { mine: report.reporterId === viewerId } : {})
+    };
+  }
+
+  /**
+   * Validate a new report body ({ type, location, note? }); the reporter is the signed-in account
+   */
+  static parseReport(body: unknown): Pick<IncidentReport, 'type' | 'location' | 'note'> {
+    const input = (body || {}) as Record<string, unknown>;
+    if (!REPORT_TYPES.includes(input.type as ReportType)) {
+      throw new Error(`type must be one of ${REPORT_TYPES.join(', ')}`);
+    }
+    if (!isLatLng(input.location)) {
+      throw new Error('location must have a valid lat and lng');
+    }
+    if (input.note !== undefined && typeof input.note !== 'string') {
+      throw new Error('note must be a string');
+    }
+
+    const note = input.note?.trim().slice(0, MAX_NOTE_LENGTH);
+    return {
+      type: input.type as ReportType,
+      location: { lat: input.location.lat, lng: input.location.lng },
+      note: note || undefined
+    };
+  }
+
+  /**
+   * Validate a vote body ({ vote, location }) by the signed-in voter against the report it is for
+   */
+  static parseVote(body: unknown, report: IncidentReport, voterId: string): { voterId: string; vote: ReportVote } {
+    const input = (body || {}) as Record<string, unknown>;
+    if (input.vote !== 'confirm' && input.vote !== 'dismiss') {
+      throw new Error('vote must be confirm or dismiss');
+    }
+    if (voterId === report.reporterId) {
+      throw new Error('You cannot vote on your own report');
+    }
+    if (!isLatLng(input.location)) {
+      throw new Error('location must have a valid lat and lng');
+    }
+    if (haversineKm(input.location, report.location) > VOTE_RADIUS_KM) {
+      throw new Error(`Only users within ${VOTE_RADIUS_KM} km can vote on a report`);
+    }
+
+    return { voterId, vote: input.vote };
+  }
+}
+
+export function reportToIncident(report: PublicIncidentReport, sourceName: string): TrafficIncident {
+  return {
+    id: `${sourceName}-${report.id}`,
+    category: report.type,
+    severity: REPORT_SEVERITY[report.type],
+    startTime: new Date(report.createdAt),
+    endTime: new Date(report.expiresAt),
+    lanesAffected: null,
+    source: sourceName,
+    geometry: { type: 'Point', coordinates: report.location },
+    confidence: report.confidence,
+    description: report.note
+  };
+}
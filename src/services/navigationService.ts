@@ -47,7 +47,7 @@ export class NavigationService {
       apps.splice(1, 0, {
         name: 'Apple Maps',
         url: waypoints && waypoints.length > 0
-          ? `https://maps.apple.com/?saddr=${originStr}&daddr=${destStr}&dirflg=d`
+          ? `https://maps.apple.com/?saddr=${originStr}&daddr=${[...waypoints.map(w => encodeURIComponent(w)), destStr].join('+to:')}&dirflg=d`
           : `https://maps.apple.com/?saddr=${originStr}&daddr=${destStr}`,
         icon: '🍎',
         condition: true
@@ -0,0 +1,231 @@
+/**
+ * Position Sources
+ * Feeds of position fixes for useGeolocation's watch mode: the browser's
+ * geolocation API, or a recorded GPX/JSON track replayed in real time.
+ */
+
+import type { LatLng } from './routingProvider';
+import { bearing, haversineMeters } from './geo';
+
+export interface PositionFix {
+  lat: number;
+  lng: number;
+  /** Horizontal accuracy radius in meters */
+  accuracy: number;
+  /** Degrees clockwise from north, null when stationary or unknown */
+  heading: number | null;
+  /** Meters per second, null when unknown */
+  speed: number | null;
+  timestamp: number;
+}
+
+export interface PositionSource {
+  /**
+   * Start delivering fixes; returns a function that stops the feed
+   */
+  watch(onFix: (fix: PositionFix) => void, onError: (message: string) => void): () => void;
+}
+
+// Below this speed a computed heading is GPS noise rather than direction of travel
+const MIN_HEADING_SPEED_MPS = 0.5;
+// Accuracy assumed for recorded points that don't carry one
+const DEFAULT_REPLAY_ACCURACY_METERS = 5;
+
+export function describeGeolocationError(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'Location access denied by user.';
+    case error.POSITION_UNAVAILABLE:
+      return 'Location information is unavailable.';
+    case error.TIMEOUT:
+      return 'Location request timed out.';
+    default:
+      return 'An unknown error occurred.';
+  }
+}
+
+/**
+ * Speed and heading implied by moving from previous to point
+ */
+export function motionBetween(
+  previous: (LatLng & { timestamp: number }) | undefined,
+  point: LatLng & { timestamp: number }
+): { speed: number | null; heading: number | null } {
+  const seconds = previous ? (point.timestamp - previous.timestamp) / 1000 : 0;
+  if (!previous || seconds <= 0) return { speed: null, heading: null };
+
+  const speed = haversineMeters(previous, point) / seconds;
+  return { speed, heading: speed >= MIN_HEADING_SPEED_MPS ? bearing(previous, point) : null };
+}
+
+export class BrowserPositionSource implements PositionSource {
+  watch(onFix: (fix: PositionFix) => void, onError: (message: string) => void): () => void {
+    if (!navigator.geolocation) {
+      onError('Geolocation is not supported by this browser.');
+      return () => {};
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { latitude, longitude, accuracy, heading, speed } = position.coords;
+        onFix({
+          lat: latitude,
+          lng: longitude,
+          accuracy,
+          heading: heading !== null && !Number.isNaN(heading) ? heading : null,
+          speed: speed !== null && !Number.isNaN(speed) ? speed : null,
+          timestamp: position.timestamp
+        });
+      },
+      (error) => onError(describeGeolocationError(error)),
+      {
+        enableHighAccuracy: true,
+        timeout: 15000,
+        maximumAge: 0,
+      }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+}
+
+/**
+ * Replays recorded fixes with their original spacing (divided by speedFactor)
+ */
+export class ReplayPositionSource implements PositionSource {
+  private readonly fixes: PositionFix[];
+
+  constructor(fixes: PositionFix[], private readonly speedFactor: number = 1) {
+    if (fixes.length === 0) {
+      throw new Error('A replay track needs at least one point');
+    }
+    if (!(speedFactor > 0)) {
+      throw new Error('speedFactor must be greater than 0');
+    }
+    this.fixes = [...fixes].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Track points (<trkpt>) from a GPX document; heading and speed are derived from consecutive points
+   */
+  static fromGpx(gpx: string, speedFactor?: number): ReplayPositionSource {
+    const points = [...gpx.matchAll(/<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g)].map(match => {
+      const attribute = (name: string) => Number(new RegExp(`${name}="([^"]+)"`).exec(match[1])?.[1]);
+      const time = /<time>([^<]+)<\/time>/.exec(match[2])?.[1];
+      return {
+        lat: attribute('lat'),
+        lng: attribute('lon'),
+        timestamp: time ? Date.parse(time) : NaN
+      };
+    });
+
+    if (points.some(point => Number.isNaN(point.lat) || Number.isNaN(point.lng) || Number.isNaN(point.timestamp))) {
+      throw new Error('Every GPX track point needs lat, lon and time');
+    }
+
+    return new ReplayPositionSource(this.withMotion(points), speedFactor);
+  }
+
+  /**
+   * A JSON array of { lat, lng | lon, timestamp | time, accuracy?, heading?, speed? }
+   */
+  static fromJson(json: string | unknown[], speedFactor?: number): ReplayPositionSource {
+    const entries = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!Array.isArray(entries)) {
+      throw new Error('A JSON track must be an array of points');
+    }
+
+    const points = entries.map((entry: Record<string, unknown>) => {
+      const time = entry.timestamp ?? entry.time;
+      const point = {
+        lat: Number(entry.lat),
+        lng: Number(entry.lng ?? entry.lon),
+        timestamp: typeof time === 'number' ? time : Date.parse(String(time)),
+        accuracy: entry.accuracy === undefined ? undefined : Number(entry.accuracy),
+        heading: typeof entry.heading === 'number' ? entry.heading : undefined,
+        speed: typeof entry.speed === 'number' ? entry.speed : undefined
+      };
+      if (Number.isNaN(point.lat) || Number.isNaN(point.lng) || Number.isNaN(point.timestamp)) {
+        throw new Error('Every JSON track point needs lat, lng and timestamp');
+      }
+      return point;
+    });
+
+    return new ReplayPositionSource(this.withMotion(points), speedFactor);
+  }
+
+  watch(onFix: (fix: PositionFix) => void): () => void {
+    const startedAt = Date.now();
+    const firstTimestamp = this.fixes[0].timestamp;
+
+    const timers = this.fixes.map(fix => setTimeout(() => {
+      // Re-stamp to wall-clock time so consumers see a live feed
+      onFix({ ...fix, timestamp: startedAt + (fix.timestamp - firstTimestamp) / this.speedFactor });
+    }, (fix.timestamp - firstTimestamp) / this.speedFactor));
+
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }
+
+  private static withMotion(
+    points: Array<LatLng & { timestamp: number; accuracy?: number; heading?: number; speed?: number }>
+  ): PositionFix[] {
+    const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+
+    return sorted.map((point, index) => {
+      const derived = motionBetween(sorted[index - 1], point);
+      return {
+        lat: point.lat,
+        lng: point.lng,
+        accuracy: point.accuracy ?? DEFAULT_REPLAY_ACCURACY_METERS,
+        heading: point.heading ?? derived.heading,
+        speed: point.speed ?? derived.speed,
+        timestamp: point.timestamp
+      };
+    });
+  }
+}
+
+/**
+ * Kalman-style smoothing: each fix is weighted by its reported accuracy against
+ * the uncertainty the estimate has built up since the last fix.
+ */
+export class PositionSmoother {
+  private estimate: LatLng | null = null;
+  private variance = 0;
+  private lastTimestamp = 0;
+
+  // Movement noise in meters per second assumed when the fix reports no higher speed
+  constructor(private readonly processNoiseMps: number = 3) {}
+
+  update(fix: PositionFix): LatLng {
+    const measurementVariance = fix.accuracy * fix.accuracy;
+
+    if (!this.estimate) {
+      this.estimate = { lat: fix.lat, lng: fix.lng };
+      this.variance = measurementVariance;
+      this.lastTimestamp = fix.timestamp;
+      return this.estimate;
+    }
+
+    // Uncertainty grows with how far we could have moved since the last fix; at driving
+    // speeds that outweighs GPS error so the estimate doesn't lag behind the vehicle
+    const seconds = Math.max(0, (fix.timestamp - this.lastTimestamp) / 1000);
+    const noise = Math.max(this.processNoiseMps, fix.speed ?? 0);
+    this.variance += seconds * noise * noise;
+    this.lastTimestamp = fix.timestamp;
+
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.estimate = {
+      lat: this.estimate.lat + gain * (fix.lat - this.estimate.lat),
+      lng: this.estimate.lng + gain * (fix.lng - this.estimate.lng)
+    };
+    this.variance *= 1 - gain;
+    return this.estimate;
+  }
+
+  reset(): void {
+    this.estimate = null;
+    this.variance = 0;
+    this.lastTimestamp = 0;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Prediction Evaluation
+ * Joins logged congestion predictions with conditions observed later in the same
+ * place and time window, and scores them: MAE/RMSE on congestion (0-100) and a
+ * confusion matrix on severity.
+ */
+
+import type { LatLng } from './routingProvider';
+import { geohashEncode, haversineKm } from './geo';
+
+export type Severity = 'low' | 'moderate' | 'high' | 'severe';
+
+export type PredictionSource = 'hourly-forecast' | 'ai-analysis';
+
+export type ObservationSource = 'traffic-condition' | 'trip';
+
+export interface PredictionRecord {
+  id: string;
+  source: PredictionSource;
+  location: LatLng;
+  madeAt: string; // ISO
+  windowStart: string; // ISO, the period the prediction is about
+  windowEnd: string;
+  congestion: number; // 0-100
+  severity: Severity;
+}
+
+export interface ObservationRecord {
+  id: string;
+  source: ObservationSource;
+  location: LatLng;
+  observedAt: string; // ISO
+  congestion: number; // 0-100
+  severity: Severity;
+}
+
+export interface SourceEvaluation {
+  evaluated: number;
+  congestionMae: number;
+  congestionRmse: number;
+  severityAccuracy: number; // 0-100
+}
+
+export interface PredictionEvaluation extends SourceEvaluation {
+  generatedAt: string;
+  predictions: number;
+  pending: number; // window not over yet, nothing observed so far
+  unmatched: number; // window over with no observation nearby
+  observations: number;
+  severities: Severity[];
+  confusionMatrix: number[][]; // [predicted][observed], indexed like severities
+  bySource: Partial<Record<PredictionSource, SourceEvaluation>>;
+}
+
+export interface EvaluationOptions {
+  matchRadiusKm?: number;
+  now?: Date;
+}
+
+export const SEVERITIES: Severity[] = ['low', 'moderate', 'high', 'severe'];
+
+// Congestion each severity stands for; the same scale TrafficService forecasts from
+export const SEVERITY_CONGESTION: Record<Severity, number> = {
+  low: 25,
+  moderate: 50,
+  high: 75,
+  severe: 90
+};
+
+// Same radius TrafficService samples current conditions over
+const DEFAULT_MATCH_RADIUS_KM = 5;
+
+export function congestionToSeverity(congestion: number): Severity {
+  if (congestion >= (SEVERITY_CONGESTION.high + SEVERITY_CONGESTION.severe) / 2) return 'severe';
+  if (congestion >= (SEVERITY_CONGESTION.moderate + SEVERITY_CONGESTION.high) / 2) return 'high';
+  if (congestion >= (SEVERITY_CONGESTION.low + SEVERITY_CONGESTION.moderate) / 2) return 'moderate';
+  return 'low';
+}
+
+// A refresh re-forecasts the same hours; predictions are kept once per cell of this size
+const DEDUPE_GEOHASH_PRECISION = 6;
+
+// First index in a time-sorted list at or after time
+const lowerBound = (observations: { time: number }[], time: number): number => {
+  let low = 0;
+  let high = observations.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (observations[mid].time < time) low = mid + 1; else high = mid;
+  }
+  return low;
+};
+
+export class PredictionEvaluator {
+  static evaluate(
+    predictions: PredictionRecord[],
+    observations: ObservationRecord[],
+    options: EvaluationOptions = {}
+  ): PredictionEvaluation {
+    const radiusKm = options.matchRadiusKm ?? DEFAULT_MATCH_RADIUS_KM;
+    const now = (options.now ?? new Date()).getTime();
+    const confusionMatrix = SEVERITIES.map(() => SEVERITIES.map(() => 0));
+    const pairs: { source: PredictionSource; predicted: number; observed: number; hit: boolean }[] = [];
+    let pending = 0;
+    let unmatched = 0;
+
+    // Parsed and sorted once so each prediction only scans the observations inside its window
+    const timeline = observations
+      .map(observation => ({ observation, time: Date.parse(observation.observedAt) }))
+      .sort((a, b) => a.time - b.time);
+
+    predictions.forEach(prediction => {
+      const start = Date.parse(prediction.windowStart);
+      const end = Date.parse(prediction.windowEnd);
+      const matches: ObservationRecord[] = [];
+      for (let i = lowerBound(timeline, start); i < timeline.length && timeline[i].time < end; i++) {
+        if (haversineKm(prediction.location, timeline[i].observation.location) <= radiusKm) {
+          matches.push(timeline[i].observation);
+        }
+      }
+
+      if (matches.length === 0) {
+        if (end > now) pending++;
+        else unmatched++;
+        return;
+      }
+
+      const observed = matches.reduce((sum, observation) => sum + observation.congestion, 0) / matches.length;
+      const observedSeverity = congestionToSeverity(observed);
+      confusionMatrix[SEVERITIES.indexOf(prediction.severity)][SEVERITIES.indexOf(observedSeverity)]++;
+      pairs.push({
+        source: prediction.source,
+        predicted: prediction.congestion,
+        observed,
+        hit: prediction.severity === observedSeverity
+      });
+    });
+
+    const sources = [...new Set(pairs.map(pair => pair.source))];
+
+    return {
+      generatedAt: new Date(now).toISOString(),
+      predictions: predictions.length,
+      pending,
+      unmatched,
+      observations: observations.length,
+      ...this.score(pairs),
+      severities: SEVERITIES,
+      confusionMatrix,
+      bySource: Object.fromEntries(sources.map(source => [source, this.score(pairs.filter(pair => pair.source === source))]))
+    };
+  }
+
+  /**
+   * Keep the latest prediction per source, place and window, in the order they were made.
+   * Windows are compared by their end: the current hour's start moves with each refresh.
+   */
+  static latestPerWindow(predictions: PredictionRecord[]): PredictionRecord[] {
+    const latest = new Map<string, PredictionRecord>();
+    predictions.forEach(prediction => {
+      const key = [
+        prediction.source,
+        geohashEncode(prediction.location, DEDUPE_GEOHASH_PRECISION),
+        Date.parse(prediction.windowEnd)
+      ].join('|');
+      latest.delete(key);
+      latest.set(key, prediction);
+    });
+    return Array.from(latest.values());
+  }
+
+  /**
+   * Validate an evaluation request body ({ predictions, observations, matchRadiusKm? })
+   */
+  static parseEvaluationRequest(body: unknown): {
+    predictions: PredictionRecord[];
+    observations: ObservationRecord[];
+    options: EvaluationOptions;
+  } {
+    const input = (body || {}) as Record<string, unknown>;
+    if (!Array.isArray(input.predictions) || !Array.isArray(input.observations)) {
+      throw new Error('predictions and observations must be arrays');
+    }
+
+    const isValid = (record: Record<string, unknown>, timeFields: string[]) => {
+      const location = record?.location as LatLng | undefined;
+      return Number.isFinite(location?.lat) && Number.isFinite(location?.lng) &&
+        Number.isFinite(record.congestion) && SEVERITIES.includes(record.severity as Severity) &&
+        timeFields.every(field => !Number.isNaN(Date.parse(String(record[field]))));
+    };
+
+    if (!input.predictions.every(record => isValid(record, ['windowStart', 'windowEnd']))) {
+      throw new Error('Each prediction needs location, congestion, severity, windowStart and windowEnd');
+    }
+    if (!input.observations.every(record => isValid(record, ['observedAt']))) {
+      throw new Error('Each observation needs location, congestion, severity and observedAt');
+    }
+
+    const matchRadiusKm = input.matchRadiusKm === undefined ? undefined : Number(input.matchRadiusKm);
+    if (matchRadiusKm !== undefined && !(matchRadiusKm > 0)) {
+      throw new Error('matchRadiusKm must be a positive number');
+    }
+
+    return {
+      predictions: input.predictions as PredictionRecord[],
+      observations: input.observations as ObservationRecord[],
+      options: { matchRadiusKm }
+    };
+  }
+
+  private static score(pairs: { predicted: number; observed: number; hit: boolean }[]): SourceEvaluation {
+    if (pairs.length === 0) {
+      return { evaluated: 0, congestionMae: 0, congestionRmse: 0, severityAccuracy: 0 };
+    }
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const errors = pairs.map(pair => pair.predicted - pair.observed);
+
+    return {
+      evaluated: pairs.length,
+      congestionMae: round(errors.reduce((sum, error) => sum + Math.abs(error), 0) / pairs.length),
+      congestionRmse: round(Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / pairs.length)),
+      severityAccuracy: round(pairs.filter(pair => pair.hit).length / pairs.length * 100)
+    };
+  }
+}
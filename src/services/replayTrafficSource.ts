@@ -0,0 +1,107 @@
+/**
+ * Replay Traffic Source
+ * Plays back recorded traffic conditions for offline testing. Records are grouped into
+ * snapshots by the minute they were observed; each fetch returns the next snapshot,
+ * looping at the end, re-stamped to the current time.
+ */
+
+import type { LatLng } from './routingProvider';
+import { SEVERITIES, Severity } from './predictionEvaluation';
+import type { TrafficCondition, TrafficSource } from './trafficSource';
+import { haversineKm } from './geo';
+
+// Conditions from one fetch carry slightly different timestamps
+const MINUTE_MS = 60 * 1000;
+
+const nullableNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+export class ReplayTrafficSource implements TrafficSource {
+  readonly name = 'replay';
+  private snapshots: Promise<TrafficCondition[][]> | null = null;
+  private cursor = 0;
+
+  constructor(private readonly load: () => Promise<unknown>) {}
+
+  static fromUrl(url: string): ReplayTrafficSource {
+    return new ReplayTrafficSource(async () => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Traffic replay file returned ${response.status}`);
+      }
+      return response.json();
+    });
+  }
+
+  /**
+   * Records in the shape TrafficService returns (e.g. a saved getCurrentTrafficConditions result)
+   */
+  static fromRecords(records: unknown[]): ReplayTrafficSource {
+    return new ReplayTrafficSource(async () => records);
+  }
+
+  async fetchConditions(center: LatLng, radiusKm: number): Promise<TrafficCondition[]> {
+    if (!this.snapshots) {
+      this.snapshots = this.load()
+        .then(records => this.toSnapshots(records))
+        .catch(error => {
+          this.snapshots = null;
+          throw error;
+        });
+    }
+    const snapshots = await this.snapshots;
+    if (snapshots.length === 0) return [];
+
+    const snapshot = snapshots[this.cursor % snapshots.length];
+    this.cursor++;
+    const now = new Date();
+
+    return snapshot
+      .filter(condition => haversineKm(center, condition.location) <= radiusKm)
+      .map(condition => ({ ...condition, id: `${this.name}-${condition.id}`, timestamp: now }));
+  }
+
+  private toSnapshots(records: unknown): TrafficCondition[][] {
+    if (!Array.isArray(records)) {
+      throw new Error('A traffic replay file must be an array of conditions');
+    }
+
+    const conditions = records.map((record: Record<string, unknown>, index) => {
+      const location = record.location as { lat?: unknown; lng?: unknown; address?: unknown } | undefined;
+      const timestamp = new Date(String(record.timestamp));
+      if (!Number.isFinite(location?.lat) || !Number.isFinite(location?.lng) ||
+        !SEVERITIES.includes(record.severity as Severity) || Number.isNaN(timestamp.getTime())) {
+        throw new Error(`Replay record ${index} needs location, severity and timestamp`);
+      }
+
+      return {
+        id: String(record.id ?? index),
+        location: {
+          lat: Number(location?.lat),
+          lng: Number(location?.lng),
+          address: String(location?.address ?? '')
+        },
+        severity: record.severity as Severity,
+        speed: nullableNumber(record.speed),
+        duration: nullableNumber(record.duration),
+        confidence: nullableNumber(record.confidence) ?? 0,
+        timestamp,
+        predictedDuration: nullableNumber(record.predictedDuration),
+        affectedRoutes: Array.isArray(record.affectedRoutes) ? record.affectedRoutes.map(String) : [],
+        source: typeof record.source === 'string' ? `${this.name}:${record.source}` : this.name,
+        path: Array.isArray(record.path) ? record.path as LatLng[] : undefined,
+        cause: typeof record.cause === 'string' ? record.cause : undefined,
+        description: typeof record.description === 'string' ? record.description : undefined
+      };
+    });
+
+    const byMinute = new Map<number, TrafficCondition[]>();
+    conditions.forEach(condition => {
+      const minute = Math.floor(condition.timestamp.getTime() / MINUTE_MS);
+      byMinute.set(minute, [...(byMinute.get(minute) || []), condition]);
+    });
+
+    return Array.from(byMinute.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, snapshot]) => snapshot);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Route Hotspot Scorer
+ * Matches route geometry against TrafficHotspot history so ranking can account
+ * for congestion we have collected ourselves, not just the provider's estimate.
+ */
+
+import type { TrafficHotspot } from '../types/trafficStorage';
+import type { LatLng } from './routingProvider';
+import { boundingBox, distanceToPolylineMeters, haversineKm } from './geo';
+
+export type HotspotLookup = (location: LatLng, radiusKm: number) => Promise<TrafficHotspot[]>;
+
+export interface RouteHotspot {
+  id: string;
+  name: string;
+  location: LatLng;
+  severity: TrafficHotspot['severity'];
+  averageCongestion: number;
+  distanceMeters: number;
+  penaltyMinutes: number;
+}
+
+// A hotspot counts as "on the route" within this distance of the polyline
+const CORRIDOR_METERS = 150;
+
+// Expected extra minutes at a fully congested (100%) hotspot of each severity
+const SEVERITY_PENALTY_MINUTES: Record<TrafficHotspot['severity'], number> = {
+  low: 0.5,
+  moderate: 2,
+  high: 4,
+  severe: 6
+};
+
+export class RouteHotspotScorer {
+  /**
+   * Find the hotspots each route passes through that are active at the departure time.
+   * Uses a single lookup covering all routes; results are in the same order as routes.
+   */
+  static async findRouteHotspots(
+    routes: LatLng[][],
+    departure: Date,
+    lookup: HotspotLookup
+  ): Promise<RouteHotspot[][]> {
+    const box = boundingBox(routes.flat());
+    if (!box) return routes.map(() => []);
+
+    const center = { lat: (box.north + box.south) / 2, lng: (box.east + box.west) / 2 };
+    const radiusKm = haversineKm(center, { lat: box.north, lng: box.east }) + CORRIDOR_METERS / 1000;
+    const hotspots = (await lookup(center, radiusKm)).filter(hotspot => this.isActive(hotspot, departure));
+
+    return routes.map(points => hotspots
+      .map(hotspot => ({ hotspot, distanceMeters: distanceToPolylineMeters(hotspot.location, points) }))
+      .filter(({ distanceMeters }) => distanceMeters <= CORRIDOR_METERS)
+      .map(({ hotspot, distanceMeters }) => ({
+        id: hotspot.id,
+        name: hotspot.name,
+        location: { lat: hotspot.location.lat, lng: hotspot.location.lng },
+        severity: hotspot.severity,
+        averageCongestion: Math.round(hotspot.averageCongestion),
+        distanceMeters: Math.round(distanceMeters),
+        penaltyMinutes: this.calculatePenalty(hotspot)
+      }))
+    );
+  }
+
+  private static isActive(hotspot: TrafficHotspot, departure: Date): boolean {
+    const hourMatches = hotspot.peakHours.includes(departure.getHours());
+    const dayMatches = hotspot.peakDays.length === 0 || hotspot.peakDays.includes(departure.getDay());
+    return hourMatches && dayMatches;
+  }
+
+  private static calculatePenalty(hotspot: TrafficHotspot): number {
+    const penalty = SEVERITY_PENALTY_MINUTES[hotspot.severity] * (hotspot.averageCongestion / 100);
+    return Math.round(penalty * 10) / 10;
+  }
+}
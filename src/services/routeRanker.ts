@@ -0,0 +1,161 @@
+/**
+ * Route Ranker
+ * Scores alternatives against a user's preference weights and explains the result
+ */
+
+import type { AlternativeRoute } from '../types/trafficStorage';
+
+export interface RoutePreferences {
+  time: number;
+  distance: number;
+  tolls: number;
+  turns: number;
+  predictability: number;
+  avoidHighways: boolean;
+}
+
+export type RouteFactor = 'time' | 'distance' | 'tolls' | 'turns' | 'predictability';
+
+export interface RouteScoreComponent {
+  factor: RouteFactor;
+  weight: number;
+  value: number | null;
+  penalty: number;
+}
+
+export interface RouteScore {
+  total: number;
+  components: RouteScoreComponent[];
+  reasons: string[];
+}
+
+export interface RankableRoute {
+  name: string;
+  distance: number;
+  durationWithTraffic: number;
+  hotspotPenalty?: number;
+  hasTolls?: boolean;
+  steps?: unknown[];
+}
+
+export const ROUTE_FACTORS: RouteFactor[] = ['time', 'distance', 'tolls', 'turns', 'predictability'];
+
+// Weights run 0 (ignore) to 5 (most important)
+export const MAX_PREFERENCE_WEIGHT = 5;
+
+export const DEFAULT_ROUTE_PREFERENCES: RoutePreferences = {
+  time: 5,
+  distance: 1,
+  tolls: 2,
+  turns: 1,
+  predictability: 2,
+  avoidHighways: false
+};
+
+// Need a few past trips on the same route before its variance means anything
+const MIN_HISTORY_SAMPLES = 3;
+
+export class RouteRanker {
+  /**
+   * Score every route; lower totals are better.
+   * Each factor's penalty is relative to the best route for that factor (0 = best),
+   * so weights trade off comparable quantities.
+   */
+  static scoreRoutes(
+    routes: RankableRoute[],
+    preferences: RoutePreferences,
+    history: AlternativeRoute[] = []
+  ): RouteScore[] {
+    const values = routes.map(route => ({
+      time: route.durationWithTraffic + (route.hotspotPenalty ?? 0),
+      distance: route.distance,
+      tolls: route.hasTolls ? 1 : 0,
+      turns: route.steps?.length ?? 0,
+      predictability: this.travelTimeDeviation(route.name, history)
+    }));
+
+    const best = (factor: RouteFactor) => {
+      const known = values.map(value => value[factor]).filter((value): value is number => value !== null);
+      return known.length > 0 ? Math.min(...known) : 0;
+    };
+    const bests = Object.fromEntries(ROUTE_FACTORS.map(factor => [factor, best(factor)])) as Record<RouteFactor, number>;
+
+    return values.map(value => {
+      const components = ROUTE_FACTORS.map(factor => {
+        const raw = value[factor];
+        const penalty = raw === null ? 0 : this.relativePenalty(factor, raw, bests[factor]);
+        return { factor, weight: preferences[factor], value: raw, penalty: Math.round(penalty * 100) / 100 };
+      });
+      const total = components.reduce((sum, component) => sum + component.weight * component.penalty, 0);
+
+      return {
+        total: Math.round(total * 100) / 100,
+        components,
+        reasons: this.describe(components)
+      };
+    });
+  }
+
+  static normalizePreferences(input: Partial<RoutePreferences> | undefined): RoutePreferences {
+    const clamp = (value: unknown, fallback: number) => {
+      const number = Number(value);
+      return Number.isFinite(number) ? Math.min(MAX_PREFERENCE_WEIGHT, Math.max(0, number)) : fallback;
+    };
+
+    return {
+      time: clamp(input?.time, DEFAULT_ROUTE_PREFERENCES.time),
+      distance: clamp(input?.distance, DEFAULT_ROUTE_PREFERENCES.distance),
+      tolls: clamp(input?.tolls, DEFAULT_ROUTE_PREFERENCES.tolls),
+      turns: clamp(input?.turns, DEFAULT_ROUTE_PREFERENCES.turns),
+      predictability: clamp(input?.predictability, DEFAULT_ROUTE_PREFERENCES.predictability),
+      avoidHighways: input?.avoidHighways === true
+    };
+  }
+
+  private static relativePenalty(factor: RouteFactor, value: number, best: number): number {
+    switch (factor) {
+      case 'tolls':
+        return value;
+      case 'predictability':
+        // Minutes of standard deviation beyond the most predictable route, per 10 minutes
+        return Math.max(0, value - best) / 10;
+      default:
+        return best > 0 ? (value - best) / best : 0;
+    }
+  }
+
+  /**
+   * Standard deviation (minutes) of past travel times for this route, or null without enough history
+   */
+  private static travelTimeDeviation(routeName: string, history: AlternativeRoute[]): number | null {
+    const durations = history
+      .filter(entry => entry.routeName === routeName)
+      .map(entry => entry.estimatedDuration / 60);
+    if (durations.length < MIN_HISTORY_SAMPLES) return null;
+
+    const mean = durations.reduce((sum, value) => sum + value, 0) / durations.length;
+    const variance = durations.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (durations.length - 1);
+    return Math.round(Math.sqrt(variance) * 10) / 10;
+  }
+
+  private static describe(components: RouteScoreComponent[]): string[] {
+    return components
+      .filter(component => component.weight > 0 && component.value !== null)
+      .map(component => {
+        const value = component.value as number;
+        const isBest = component.penalty === 0;
+        switch (component.factor) {
+          case 'time':
+            return isBest ? `Fastest (${Math.round(value)} min)` : `${Math.round(component.penalty * 100)}% slower`;
+          case 'distance':
+            return isBest ? `Shortest (${value.toFixed(1)} mi)` : `${Math.round(component.penalty * 100)}% longer`;
+          case 'tolls':
+            return value > 0 ? 'Has tolls' : 'No tolls';
+          case 'turns':
+            return isBest ? `Fewest steps (${value})` : `${value} steps`;
+          case 'predictability':
+            return isBest ? `Most predictable (±${value} min)` : `Varies ±${value} min`;
+        }
+      });
+  }
+}
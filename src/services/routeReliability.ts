@@ -0,0 +1,64 @@
+/**
+ * Route Reliability
+ * Travel-time reliability from stored route history, using the FHWA measures:
+ * buffer time (95th percentile minus average) and planning time index
+ * (95th percentile over free-flow time).
+ */
+
+import type { AlternativeRoute } from '../types/trafficStorage';
+
+export interface RouteReliabilityIndex {
+  samples: number; // route estimates recorded at this weekday and hour, not completed trips
+  usualMinutes: number;
+  p95Minutes: number;
+  bufferMinutes: number;
+  bufferIndex: number;
+  planningTimeIndex: number;
+}
+
+// Fewer same-hour observations than this don't support a 95th percentile
+const MIN_SAMPLES = 3;
+
+export class RouteReliability {
+  /**
+   * Reliability for one route at the given departure, from history on the same weekday and hour
+   */
+  static calculate(
+    routeName: string,
+    history: AlternativeRoute[],
+    departure: Date,
+    freeFlowMinutes: number
+  ): RouteReliabilityIndex | null {
+    const durations = history
+      .filter(entry => {
+        const observed = new Date(entry.timestamp);
+        return entry.routeName === routeName &&
+          observed.getDay() === departure.getDay() &&
+          observed.getHours() === departure.getHours();
+      })
+      .map(entry => entry.estimatedDuration / 60)
+      .sort((a, b) => a - b);
+
+    if (durations.length < MIN_SAMPLES) return null;
+
+    const average = durations.reduce((sum, value) => sum + value, 0) / durations.length;
+    const p95 = this.percentile(durations, 0.95);
+
+    return {
+      samples: durations.length,
+      usualMinutes: Math.round(average),
+      p95Minutes: Math.round(p95),
+      bufferMinutes: Math.round(p95 - average),
+      bufferIndex: Math.round((p95 - average) / average * 100) / 100,
+      planningTimeIndex: freeFlowMinutes > 0 ? Math.round(p95 / freeFlowMinutes * 100) / 100 : 0
+    };
+  }
+
+  // Linear interpolation between closest ranks; values must be sorted ascending
+  private static percentile(values: number[], fraction: number): number {
+    const rank = (values.length - 1) * fraction;
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+  }
+}
@@ -1,13 +1,33 @@
-import { GoogleMapsService } from './googleMapsService';
-// Supabase integration disabled for now
+import { GoogleMapsService, GoogleRoute } from './googleMapsService';
+import { HttpRoutingProvider } from './httpRoutingProvider';
+import { RoutingProvider, TravelMode } from './routingProvider';
+import { RouteHotspot, RouteHotspotScorer } from './routeHotspotScorer';
+import { RoutePreferences, RouteRanker, RouteScore } from './routeRanker';
+import { RouteReliability, RouteReliabilityIndex } from './routeReliability';
+import type { AlternativeRoute, TrafficHotspot } from '../types/trafficStorage';
+import { decodePolyline } from './geo';
+
+// Google Directions allows up to 25 intermediate waypoints
+const MAX_WAYPOINTS = 25;
+
+// Arrive-by planning re-queries the provider at most this many candidate departure times
+const MAX_ARRIVE_BY_ATTEMPTS = 5;
+const MINUTE_MS = 60 * 1000;
+
+// Each sweep sample is a separate directions request
+const MAX_SWEEP_SAMPLES = 24;
 
 export interface RouteRequest {
   origin: { lat: number; lng: number };
   destination: string;
-  travelMode?: 'driving' | 'walking' | 'transit' | 'bicycling';
+  travelMode?: TravelMode;
   avoidTolls?: boolean;
   avoidHighways?: boolean;
-  userId?: string;
+  waypoints?: string[];
+  optimizeWaypoints?: boolean;
+  departAt?: Date;
+  arriveBy?: Date;
+  preferences?: Partial<RoutePreferences>;
 }
 
 export interface RouteResponse {
@@ -30,6 +50,47 @@ export interface RouteResult {
   waypoints?: string[];
   polyline?: string;
   steps?: RouteStep[];
+  legs?: RouteLegResult[];
+  stops?: string[];
+  waypointOrder?: number[];
+  departureTime: string;
+  arrivalTime: string;
+  hotspots?: RouteHotspot[];
+  hotspotPenalty?: number;
+  hasTolls: boolean;
+  score?: RouteScore;
+  reliability?: RouteReliabilityIndex;
+  provider: string;
+}
+
+export interface RouteLegResult {
+  startAddress: string;
+  endAddress: string;
+  distance: number;
+  duration: number;
+  durationWithTraffic: number;
+  trafficDelay: number;
+  trafficLevel: 'low' | 'moderate' | 'high' | 'severe';
+  stepCount: number;
+}
+
+export interface DepartureSweepSample {
+  departureTime: string;
+  durationWithTraffic: number;
+}
+
+export interface DepartureSweepSeries {
+  routeName: string;
+  samples: DepartureSweepSample[];
+  minimum: DepartureSweepSample | null;
+}
+
+export interface DepartureSweepResponse {
+  status: 'success' | 'error';
+  message?: string;
+  departureTimes: string[];
+  series: DepartureSweepSeries[];
+  best?: DepartureSweepSample & { routeName: string };
 }
 
 export interface RouteStep {
@@ -40,13 +101,135 @@ export interface RouteStep {
   endLocation: { lat: number; lng: number };
 }
 
+/**
+ * Collected traffic history that ranking draws on (TrafficDataStorageService in the browser)
+ */
+export interface TrafficHistorySource {
+  getNearbyHotspots(location: { lat: number; lng: number }, radiusKm: number): Promise<TrafficHotspot[]>;
+  getRouteHistory(origin: { lat: number; lng: number }, destination: { lat: number; lng: number }): Promise<AlternativeRoute[]>;
+  recordRouteObservations(routes: AlternativeRoute[]): Promise<void>;
+}
+
 export class RouteService {
-  private static googleMapsService = GoogleMapsService.getInstance();
-  
-  static async calculateRoutes(request: RouteRequest): Promise<RouteResponse> {
+  private static provider: RoutingProvider | null = null;
+  private static historySource: TrafficHistorySource | null | undefined;
+
+  /**
+   * Use a self-hosted router when VITE_ROUTING_PROVIDER_URL is set, otherwise the Google Maps SDK
+   */
+  static getProvider(): RoutingProvider {
+    if (!this.provider) {
+      const baseUrl = import.meta.env.VITE_ROUTING_PROVIDER_URL;
+      this.provider = baseUrl
+        ? new HttpRoutingProvider({
+            baseUrl,
+            flavor: import.meta.env.VITE_ROUTING_PROVIDER_FLAVOR,
+            geocoderUrl: import.meta.env.VITE_GEOCODER_URL
+          })
+        : GoogleMapsService.getInstance();
+    }
+    return this.provider;
+  }
+
+  static setProvider(provider: RoutingProvider): void {
+    this.provider = provider;
+  }
+
+  static setHistorySource(source: TrafficHistorySource | null): void {
+    this.historySource = source;
+  }
+
+  /**
+   * Traffic history lives in the browser's TrafficDataStorageService; server callers
+   * have none unless they set a source. Loaded lazily so the server never imports it.
+   */
+  private static async getHistorySource(): Promise<TrafficHistorySource | null> {
+    if (this.historySource === undefined) {
+      if (typeof window === 'undefined') {
+        this.historySource = null;
+      } else {
+        const { TrafficDataStorageService } = await import('./trafficDataStorage');
+        this.historySource = TrafficDataStorageService.getInstance();
+      }
+    }
+    return this.historySource;
+  }
+
+  /**
+   * Validate an untrusted request body (HTTP endpoints) into a RouteRequest
+   */
+  static parseRouteRequest(body: unknown): RouteRequest {
+    const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const origin = input.origin as { lat?: unknown; lng?: unknown } | undefined;
+    const lat = Number(origin?.lat);
+    const lng = Number(origin?.lng);
+
+    if (!origin || !Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      throw new Error('origin must be an object with valid lat and lng');
+    }
+
+    const destination = typeof input.destination === 'string' ? input.destination.trim() : '';
+    if (!destination) {
+      throw new Error('destination is required');
+    }
+
+    const travelModes: TravelMode[] = ['driving', 'walking', 'transit', 'bicycling'];
+    if (input.travelMode !== undefined && !travelModes.includes(input.travelMode as TravelMode)) {
+      throw new Error(`travelMode must be one of: ${travelModes.join(', ')}`);
+    }
+
+    const waypoints = input.waypoints === undefined ? [] : input.waypoints;
+    if (!Array.isArray(waypoints) || waypoints.some(stop => typeof stop !== 'string' || !stop.trim())) {
+      throw new Error('waypoints must be an array of non-empty strings');
+    }
+    if (waypoints.length > MAX_WAYPOINTS) {
+      throw new Error(`A trip can have at most ${MAX_WAYPOINTS} intermediate stops`);
+    }
+
+    const departAt = this.parseFutureTime(input.departAt, 'departAt');
+    const arriveBy = this.parseFutureTime(input.arriveBy, 'arriveBy');
+    if (departAt && arriveBy) {
+      throw new Error('Use either departAt or arriveBy, not both');
+    }
+
+    return {
+      origin: { lat, lng },
+      destination,
+      travelMode: input.travelMode as TravelMode | undefined,
+      avoidTolls: input.avoidTolls === true,
+      avoidHighways: input.avoidHighways === true,
+      waypoints: waypoints.length > 0 ? waypoints.map((stop: string) => stop.trim()) : undefined,
+      optimizeWaypoints: input.optimizeWaypoints === true,
+      departAt,
+      arriveBy,
+      preferences: input.preferences && typeof input.preferences === 'object'
+        ? RouteRanker.normalizePreferences(input.preferences as Partial<RoutePreferences>)
+        : undefined
+    };
+  }
+
+  private static parseFutureTime(value: unknown, field: string): Date | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new Error(`${field} must be an ISO 8601 date-time`);
+    }
+    if (date.getTime() < Date.now() - MINUTE_MS) {
+      throw new Error(`${field} must not be in the past`);
+    }
+    return date;
+  }
+
+  static async calculateRoutes(request: RouteRequest, provider?: RoutingProvider): Promise<RouteResponse> {
     try {
-      // Use JavaScript SDK which properly handles CORS and browser environment
-      return await this.calculateRoutesWithJSSDK(request);
+      const routingProvider = provider ?? this.getProvider();
+      if (request.arriveBy) {
+        return await this.calculateArriveByRoutes(request, request.arriveBy, routingProvider);
+      }
+      return await this.calculateRoutesWithProvider(request, routingProvider);
     } catch (error) {
       console.error('Route calculation failed:', error);
       return {
@@ -58,14 +241,145 @@ export class RouteService {
   }
 
   /**
-   * Calculate routes using Google Maps JavaScript SDK
+   * Find the latest departure at which the fastest route still arrives by the deadline.
+   * Each candidate departure comes from the predicted duration at the previous one;
+   * when predictions disagree the search bisects between the latest feasible and
+   * earliest late departure.
+   */
+  private static async calculateArriveByRoutes(
+    request: RouteRequest,
+    arriveBy: Date,
+    provider: RoutingProvider
+  ): Promise<RouteResponse> {
+    const deadline = arriveBy.getTime();
+    const now = Date.now();
+    let candidate = now;
+    let feasible: { departure: number; response: RouteResponse } | null = null;
+    let lateFrom = Infinity;
+    let earliestArrival: number | null = null;
+
+    for (let attempt = 0; attempt < MAX_ARRIVE_BY_ATTEMPTS; attempt++) {
+      const response = await this.calculateRoutesWithProvider(
+        { ...request, departAt: candidate === now ? undefined : new Date(candidate), arriveBy: undefined },
+        provider
+      );
+      if (response.status === 'error' || response.routes.length === 0) {
+        return feasible?.response ?? response;
+      }
+
+      const fastest = Math.min(...response.routes.map(route => route.durationWithTraffic)) * MINUTE_MS;
+      if (candidate === now) {
+        earliestArrival = now + fastest;
+      }
+      if (candidate + fastest <= deadline) {
+        if (!feasible || candidate > feasible.departure) {
+          feasible = { departure: candidate, response };
+        }
+      } else {
+        lateFrom = Math.min(lateFrom, candidate);
+      }
+
+      let next = Math.floor((deadline - fastest) / MINUTE_MS) * MINUTE_MS;
+      if (feasible && (next <= feasible.departure || next >= lateFrom)) {
+        if (lateFrom === Infinity) break;
+        next = Math.floor((feasible.departure + lateFrom) / 2 / MINUTE_MS) * MINUTE_MS;
+      }
+      if (next < now || next >= lateFrom || (feasible && next <= feasible.departure)) break;
+      candidate = next;
+    }
+
+    if (!feasible) {
+      const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      return {
+        routes: [],
+        status: 'error',
+        message: earliestArrival
+          ? `No route arrives by ${formatTime(deadline)}. Leaving now, the fastest route arrives at ${formatTime(earliestArrival)}.`
+          : `No route arrives by ${formatTime(deadline)}.`
+      };
+    }
+
+    return feasible.response;
+  }
+
+  /**
+   * Predict the trip duration of every route for departures across a time window.
+   * Routes are matched across samples by name; a route missing at some departure
+   * simply has no sample there.
+   */
+  static async sweepDepartureTimes(
+    request: RouteRequest,
+    window: { start: Date; end: Date },
+    stepMinutes: number,
+    provider?: RoutingProvider
+  ): Promise<DepartureSweepResponse> {
+    const now = Date.now();
+    const start = Math.max(window.start.getTime(), now);
+    const end = window.end.getTime();
+    const step = Math.max(1, stepMinutes) * MINUTE_MS;
+
+    if (end < start) {
+      return { status: 'error', message: 'The departure window must end in the future', departureTimes: [], series: [] };
+    }
+    if (Math.floor((end - start) / step) + 1 > MAX_SWEEP_SAMPLES) {
+      return {
+        status: 'error',
+        message: `A sweep can evaluate at most ${MAX_SWEEP_SAMPLES} departure times. Use a shorter window or a larger step.`,
+        departureTimes: [],
+        series: []
+      };
+    }
+
+    const routingProvider = provider ?? this.getProvider();
+    const departureTimes: string[] = [];
+    const seriesByName = new Map<string, DepartureSweepSample[]>();
+
+    for (let departure = start; departure <= end; departure += step) {
+      const response = await this.calculateRoutes(
+        { ...request, departAt: departure === now ? undefined : new Date(departure), arriveBy: undefined },
+        routingProvider
+      );
+      if (response.status === 'error') {
+        return { status: 'error', message: response.message, departureTimes: [], series: [] };
+      }
+
+      const departureTime = new Date(departure).toISOString();
+      departureTimes.push(departureTime);
+      response.routes.forEach(route => {
+        const samples = seriesByName.get(route.name) ?? [];
+        samples.push({ departureTime, durationWithTraffic: route.durationWithTraffic });
+        seriesByName.set(route.name, samples);
+      });
+    }
+
+    const series: DepartureSweepSeries[] = Array.from(seriesByName, ([routeName, samples]) => ({
+      routeName,
+      samples,
+      minimum: samples.reduce<DepartureSweepSample | null>(
+        (min, sample) => (!min || sample.durationWithTraffic < min.durationWithTraffic ? sample : min),
+        null
+      )
+    }));
+
+    const best = series.reduce<(DepartureSweepSample & { routeName: string }) | undefined>((current, entry) => {
+      if (!entry.minimum || (current && current.durationWithTraffic <= entry.minimum.durationWithTraffic)) {
+        return current;
+      }
+      return { ...entry.minimum, routeName: entry.routeName };
+    }, undefined);
+
+    return { status: 'success', departureTimes, series, best };
+  }
+
+  /**
+   * Calculate routes using the given routing provider
    */
-  static async calculateRoutesWithJSSDK(request: RouteRequest): Promise<RouteResponse> {
+  static async calculateRoutesWithProvider(request: RouteRequest, provider: RoutingProvider): Promise<RouteResponse> {
     try {
       // First, search for the destination to get coordinates and validate it exists
       let places;
       try {
-        places = await this.googleMapsService.searchPlaces(request.destination);
+        places = await provider.searchPlaces(request.destination);
         if (places.length === 0) {
           return {
             routes: [],
@@ -85,17 +399,19 @@ export class RouteService {
       const destinationPlace = places[0];
       console.log('Found destination:', destinationPlace.formatted_address);
 
-      // Calculate directions using Google Maps JavaScript SDK
       let directionsResult;
       try {
-        directionsResult = await this.googleMapsService.calculateDirections(
+        directionsResult = await provider.calculateDirections(
           request.origin,
           request.destination,
           {
-            travelMode: this.getTravelMode(request.travelMode),
-            avoidHighways: request.avoidHighways,
+            travelMode: request.travelMode,
+            avoidHighways: request.avoidHighways || request.preferences?.avoidHighways === true,
             avoidTolls: request.avoidTolls,
-            provideRouteAlternatives: true
+            provideRouteAlternatives: true,
+            waypoints: request.waypoints,
+            optimizeWaypoints: request.optimizeWaypoints,
+            departureTime: request.departAt
           }
         );
       } catch (error) {
@@ -115,18 +431,40 @@ export class RouteService {
         };
       }
 
-      // Convert Google Maps routes to our format
+      const departure = request.departAt ?? new Date();
+
+      // Convert provider routes to our format
       const routes: RouteResult[] = directionsResult.routes.map((route, index) => {
-        const leg = route.legs[0]; // Assuming single leg for now
-        const distance = leg.distance.value / 1609.34; // Convert meters to miles
-        const duration = Math.round(leg.duration.value / 60); // Convert seconds to minutes
-        const durationWithTraffic = leg.duration_in_traffic 
-          ? Math.round(leg.duration_in_traffic.value / 60)
-          : duration;
+        const legs = route.legs.map(leg => {
+          const legDuration = Math.round(leg.duration.value / 60); // Convert seconds to minutes
+          const legDurationWithTraffic = leg.duration_in_traffic
+            ? Math.round(leg.duration_in_traffic.value / 60)
+            : legDuration;
+          const legDelay = Math.max(0, legDurationWithTraffic - legDuration);
+
+          return {
+            startAddress: leg.start_address,
+            endAddress: leg.end_address,
+            distance: leg.distance.value / 1609.34, // Convert meters to miles
+            duration: legDuration,
+            durationWithTraffic: legDurationWithTraffic,
+            trafficDelay: legDelay,
+            trafficLevel: this.calculateTrafficLevel(legDelay, legDuration),
+            stepCount: (leg.steps || []).length
+          };
+        });
+
+        const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+        const duration = legs.reduce((sum, leg) => sum + leg.duration, 0);
+        const durationWithTraffic = legs.reduce((sum, leg) => sum + leg.durationWithTraffic, 0);
         const trafficDelay = Math.max(0, durationWithTraffic - duration);
 
         const trafficLevel = this.calculateTrafficLevel(trafficDelay, duration);
-        const isRecommended = index === 0 && trafficLevel !== 'severe';
+
+        const stops = request.waypoints || [];
+        const waypointOrder = route.waypoint_order?.length === stops.length
+          ? route.waypoint_order
+          : stops.map((_, stopIndex) => stopIndex);
 
         return {
           id: `route-${index}`,
@@ -137,20 +475,53 @@ export class RouteService {
           trafficDelay,
           trafficLevel,
           description: this.generateRouteDescription(route, trafficLevel),
-          isRecommended,
+          isRecommended: false,
           savings: undefined, // Will be calculated after all routes are processed
           waypoints: this.extractWaypoints(route),
           polyline: route.overview_polyline.points,
-          steps: leg.steps?.map(step => ({
+          steps: route.legs.flatMap(leg => leg.steps || []).map(step => ({
             instruction: step.html_instructions ? this.cleanInstruction(step.html_instructions) : 'Continue',
             distance: step.distance.value / 1609.34,
             duration: step.duration.value / 60,
             startLocation: step.start_location,
             endLocation: step.end_location
-          })) || []
+          })),
+          legs,
+          stops: stops.length > 0 ? waypointOrder.map(stopIndex => stops[stopIndex]) : undefined,
+          waypointOrder: stops.length > 0 ? waypointOrder : undefined,
+          hasTolls: this.hasTolls(route),
+          departureTime: departure.toISOString(),
+          arrivalTime: new Date(departure.getTime() + durationWithTraffic * MINUTE_MS).toISOString(),
+          provider: provider.name
         };
       });
 
+      const history = await this.getHistorySource();
+      await this.applyHotspotPenalties(routes, departure, history);
+
+      const preferences = RouteRanker.normalizePreferences(request.preferences);
+      const routeHistory = await this.getRouteHistory(request.origin, destinationPlace.geometry.location, history);
+      const scores = RouteRanker.scoreRoutes(routes, preferences, routeHistory);
+      routes.forEach((route, index) => {
+        route.score = scores[index];
+        route.reliability = RouteReliability.calculate(route.name, routeHistory, departure, route.duration) ?? undefined;
+      });
+
+      // Recommend the best preference score, skipping severely congested routes
+      const recommended = routes
+        .filter(route => route.trafficLevel !== 'severe')
+        .reduce<RouteResult | null>((best, route) =>
+          !best || route.score!.total < best.score!.total ? route : best, null);
+      routes.forEach(route => {
+        route.isRecommended = route === recommended;
+      });
+
+      if (history && !request.departAt) {
+        history.recordRouteObservations(
+          this.toRouteObservations(routes, request.origin, destinationPlace.geometry.location, departure)
+        ).catch(error => console.warn('Failed to record route observations:', error));
+      }
+
       // Calculate savings for each route
       routes.forEach((route, index) => {
         if (route.isRecommended) {
@@ -174,15 +545,73 @@ export class RouteService {
     }
   }
 
-  private static getTravelMode(mode?: string): google.maps.TravelMode {
-    switch (mode) {
-      case 'walking': return google.maps.TravelMode.WALKING;
-      case 'transit': return google.maps.TravelMode.TRANSIT;
-      case 'bicycling': return google.maps.TravelMode.BICYCLING;
-      default: return google.maps.TravelMode.DRIVING;
+  private static async applyHotspotPenalties(
+    routes: RouteResult[],
+    departure: Date,
+    history: TrafficHistorySource | null
+  ): Promise<void> {
+    try {
+      if (!history || routes.length === 0) return;
+
+      const geometries = routes.map(route => route.polyline
+        ? decodePolyline(route.polyline)
+        : (route.steps || []).flatMap(step => [step.startLocation, step.endLocation]));
+      const matches = await RouteHotspotScorer.findRouteHotspots(
+        geometries,
+        departure,
+        (location, radiusKm) => history.getNearbyHotspots(location, radiusKm)
+      );
+
+      routes.forEach((route, index) => {
+        route.hotspots = matches[index];
+        route.hotspotPenalty = Math.round(matches[index].reduce((sum, hotspot) => sum + hotspot.penaltyMinutes, 0) * 10) / 10;
+      });
+    } catch (error) {
+      console.warn('Hotspot scoring skipped:', error);
+    }
+  }
+
+  private static async getRouteHistory(
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+    history: TrafficHistorySource | null
+  ): Promise<AlternativeRoute[]> {
+    try {
+      return history ? await history.getRouteHistory(origin, destination) : [];
+    } catch (error) {
+      console.warn('Route history unavailable:', error);
+      return [];
     }
   }
 
+  private static toRouteObservations(
+    routes: RouteResult[],
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+    observedAt: Date
+  ): AlternativeRoute[] {
+    return routes.map(route => ({
+      id: `${route.name}_${observedAt.getTime()}`,
+      origin: { lat: origin.lat, lng: origin.lng },
+      destination: { lat: destination.lat, lng: destination.lng },
+      routeName: route.name,
+      distance: Math.round(route.distance * 1609.34),
+      estimatedDuration: route.durationWithTraffic * 60,
+      averageSpeed: route.durationWithTraffic > 0 ? Math.round(route.distance * 1.60934 / (route.durationWithTraffic / 60)) : 0,
+      congestionLevel: route.duration > 0 ? Math.min(100, Math.round(route.trafficDelay / route.duration * 100)) : 0,
+      confidence: 1,
+      timestamp: observedAt,
+      routeType: 'mixed',
+      tollRequired: route.hasTolls,
+      roadConditions: []
+    }));
+  }
+
+  private static hasTolls(route: GoogleRoute): boolean {
+    return route.warnings?.some(warning => /toll/i.test(warning)) ||
+      route.legs.some(leg => (leg.steps || []).some(step => /toll road/i.test(step.html_instructions || '')));
+  }
+
   private static getDirectionsErrorMessage(status: string): string {
     switch (status) {
       case 'NOT_FOUND':
@@ -204,7 +633,7 @@ export class RouteService {
     }
   }
 
-  private static calculateTrafficLevel(trafficDelay: number, baseDuration: number): 'low' | 'moderate' | 'high' | 'severe' {
+  static calculateTrafficLevel(trafficDelay: number, baseDuration: number): 'low' | 'moderate' | 'high' | 'severe' {
     const delayPercentage = (trafficDelay / baseDuration) * 100;
     
     if (delayPercentage >= 50) return 'severe';
@@ -213,7 +642,7 @@ export class RouteService {
     return 'low';
   }
 
-  private static generateRouteDescription(route: any, trafficLevel: string): string {
+  private static generateRouteDescription(route: GoogleRoute, trafficLevel: string): string {
     const summary = route.summary || 'Standard route';
     const trafficDescriptions = {
       severe: 'Heavy congestion expected',
@@ -240,9 +669,7 @@ export class RouteService {
 
   // Removed unused helper: extractWaypointsFromSummary
 
-  // Persistence disabled; keeping method removed
-
-  private static extractWaypoints(route: any): string[] {
+  private static extractWaypoints(route: GoogleRoute): string[] {
     // Extract major waypoints from the route summary
     const summary = route.summary || '';
     const waypoints = summary.split(' and ').filter((w: string) => w.length > 0);
@@ -259,16 +686,4 @@ export class RouteService {
       .replace(/&gt;/g, '>')
       .trim();
   }
-
-  // Get saved routes for a user
-  static async getSavedRoutes(_userId: string): Promise<RouteResult[]> {
-    // Supabase disabled; return empty
-    return [];
-  }
-
-  // Delete a saved route
-  static async deleteSavedRoute(_routeId: string): Promise<boolean> {
-    // Supabase disabled; pretend success
-    return true;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import type { DirectionsResult, PlaceResult } from './googleMapsService';
+import { GoogleDirectionsApiProvider } from './googleDirectionsApiProvider';
+import { HttpRoutingProvider } from './httpRoutingProvider';
+
+export type TravelMode = 'driving' | 'walking' | 'transit' | 'bicycling';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface DirectionsOptions {
+  travelMode?: TravelMode;
+  avoidHighways?: boolean;
+  avoidTolls?: boolean;
+  provideRouteAlternatives?: boolean;
+  waypoints?: string[];
+  optimizeWaypoints?: boolean;
+  departureTime?: Date;
+}
+
+/**
+ * A source of geocoding and directions.
+ * Results use the Google Directions JSON shape (meters, seconds, encoded polyline)
+ * so RouteService can rank routes the same way regardless of where they came from.
+ */
+export interface RoutingProvider {
+  readonly name: string;
+  searchPlaces(query: string): Promise<PlaceResult[]>;
+  calculateDirections(
+    origin: LatLng,
+    destination: string,
+    options?: DirectionsOptions
+  ): Promise<DirectionsResult>;
+}
+
+/**
+ * Pick the routing backend for server-side callers (Express, serverless functions)
+ */
+export function createServerRoutingProvider(env: Record<string, string | undefined>): RoutingProvider {
+  const baseUrl = env.ROUTING_PROVIDER_URL || env.VITE_ROUTING_PROVIDER_URL;
+  if (baseUrl) {
+    const flavor = env.ROUTING_PROVIDER_FLAVOR || env.VITE_ROUTING_PROVIDER_FLAVOR;
+    return new HttpRoutingProvider({
+      baseUrl,
+      flavor: flavor === 'valhalla' ? 'valhalla' : 'osrm',
+      geocoderUrl: env.GEOCODER_URL || env.VITE_GEOCODER_URL
+    });
+  }
+
+  const apiKey = env.GOOGLE_MAPS_API_KEY || env.VITE_GOOGLE_MAPS_API_KEY;
+  if (!apiKey) {
+    throw new Error('No routing provider configured. Set ROUTING_PROVIDER_URL or GOOGLE_MAPS_API_KEY');
+  }
+  return new GoogleDirectionsApiProvider(apiKey);
+}
@@ -0,0 +1,132 @@
+/**
+ * Saved Places
+ * Routes and favorite places users keep, as stored by the server, and validation of
+ * what clients send to store them. The owner is always the signed-in user.
+ */
+
+import type { TrafficLevel } from './supabaseService';
+
+export interface SaveRouteInput {
+  origin_lat: number;
+  origin_lng: number;
+  destination: string;
+  destination_lat: number | null;
+  destination_lng: number | null;
+  route_name: string;
+  distance: number;
+  duration: number;
+  duration_with_traffic: number;
+  traffic_delay: number;
+  traffic_level: TrafficLevel;
+  description: string;
+  is_recommended: boolean;
+  savings?: number;
+  waypoints?: string[];
+  polyline?: string;
+}
+
+export interface SavedRouteRow extends SaveRouteInput {
+  id: string;
+  user_id: string;
+  created_at: string; // ISO
+}
+
+export interface SaveFavoriteInput {
+  label: string; // e.g. Home, Work
+  address: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface FavoritePlace extends SaveFavoriteInput {
+  id: string;
+  user_id: string;
+  created_at: string; // ISO
+}
+
+// Labels offered before the user has saved anything
+export const SUGGESTED_FAVORITE_LABELS = ['Home', 'Work'];
+export const MAX_FAVORITES = 20;
+const MAX_TEXT_LENGTH = 200;
+const TRAFFIC_LEVELS: TrafficLevel[] = ['low', 'moderate', 'high', 'severe'];
+
+const requiredText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field} is required`);
+  }
+  return value.trim().slice(0, MAX_TEXT_LENGTH);
+};
+
+const finiteNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${field} must be a number`);
+  }
+  return value;
+};
+
+const coordinate = (value: unknown, field: string, limit: number): number | null => {
+  if (value === undefined || value === null) return null;
+  const number = finiteNumber(value, field);
+  if (Math.abs(number) > limit) {
+    throw new Error(`${field} is out of range`);
+  }
+  return number;
+};
+
+export class SavedPlaces {
+  /**
+   * Validate a saved route body (SaveRouteInput)
+   */
+  static parseRoute(body: unknown): SaveRouteInput {
+    const input = (body || {}) as Record<string, unknown>;
+
+    const trafficLevel = input.traffic_level as TrafficLevel;
+    if (!TRAFFIC_LEVELS.includes(trafficLevel)) {
+      throw new Error(`traffic_level must be one of ${TRAFFIC_LEVELS.join(', ')}`);
+    }
+    const waypoints = input.waypoints;
+    if (waypoints !== undefined && (!Array.isArray(waypoints) || waypoints.some(stop => typeof stop !== 'string'))) {
+      throw new Error('waypoints must be an array of strings');
+    }
+    if (input.polyline !== undefined && typeof input.polyline !== 'string') {
+      throw new Error('polyline must be a string');
+    }
+    const originLat = coordinate(input.origin_lat, 'origin_lat', 90);
+    const originLng = coordinate(input.origin_lng, 'origin_lng', 180);
+    if (originLat === null || originLng === null) {
+      throw new Error('origin_lat and origin_lng are required');
+    }
+
+    return {
+      origin_lat: originLat,
+      origin_lng: originLng,
+      destination: requiredText(input.destination, 'destination'),
+      destination_lat: coordinate(input.destination_lat, 'destination_lat', 90),
+      destination_lng: coordinate(input.destination_lng, 'destination_lng', 180),
+      route_name: requiredText(input.route_name, 'route_name'),
+      distance: finiteNumber(input.distance, 'distance'),
+      duration: finiteNumber(input.duration, 'duration'),
+      duration_with_traffic: finiteNumber(input.duration_with_traffic, 'duration_with_traffic'),
+      traffic_delay: finiteNumber(input.traffic_delay, 'traffic_delay'),
+      traffic_level: trafficLevel,
+      description: typeof input.description === 'string' ? input.description.slice(0, MAX_TEXT_LENGTH) : '',
+      is_recommended: input.is_recommended === true,
+      savings: input.savings === undefined || input.savings === null ? undefined : finiteNumber(input.savings, 'savings'),
+      waypoints: waypoints as string[] | undefined,
+      polyline: input.polyline as string | undefined
+    };
+  }
+
+  /**
+   * Validate a favorite place body (SaveFavoriteInput)
+   */
+  static parseFavorite(body: unknown): SaveFavoriteInput {
+    const input = (body || {}) as Record<string, unknown>;
+    return {
+      label: requiredText(input.label, 'label'),
+      address: requiredText(input.address, 'address'),
+      lat: coordinate(input.lat, 'lat', 90),
+      lng: coordinate(input.lng, 'lng', 180)
+    };
+  }
+}
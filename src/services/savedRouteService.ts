@@ -0,0 +1,57 @@
+/**
+ * Saved Route Service
+ * Client for the calculated routes the backend keeps for the signed-in user
+ */
+
+import type { RouteResult } from './routeService';
+import type { SavedRouteRow } from './savedPlaces';
+import { readJson } from './apiResponse';
+import { AuthService } from './authService';
+
+const API_URL = import.meta.env.VITE_API_URL || '';
+
+export class SavedRouteService {
+  static async saveRoute(
+    route: RouteResult,
+    trip: { origin: { lat: number; lng: number }; destination: string }
+  ): Promise<SavedRouteRow> {
+    const end = route.steps?.[route.steps.length - 1]?.endLocation;
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/saved-routes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        origin_lat: trip.origin.lat,
+        origin_lng: trip.origin.lng,
+        destination: trip.destination,
+        destination_lat: end?.lat ?? null,
+        destination_lng: end?.lng ?? null,
+        route_name: route.name,
+        distance: route.distance,
+        duration: route.duration,
+        duration_with_traffic: route.durationWithTraffic,
+        traffic_delay: route.trafficDelay,
+        traffic_level: route.trafficLevel,
+        description: route.description,
+        is_recommended: route.isRecommended,
+        savings: route.savings,
+        waypoints: route.stops ?? route.waypoints,
+        polyline: route.polyline
+      })
+    });
+    return readJson<SavedRouteRow>(response, 'Failed to save route');
+  }
+
+  // Newest first
+  static async getSavedRoutes(): Promise<SavedRouteRow[]> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/saved-routes`);
+    const data = await readJson<{ routes: SavedRouteRow[] }>(response, 'Failed to load saved routes');
+    return data.routes;
+  }
+
+  static async deleteSavedRoute(routeId: string): Promise<void> {
+    const response = await AuthService.authorizedFetch(`${API_URL}/api/saved-routes/${encodeURIComponent(routeId)}`, {
+      method: 'DELETE'
+    });
+    await readJson(response, 'Failed to delete saved route');
+  }
+}
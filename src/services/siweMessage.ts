@@ -0,0 +1,99 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) messages
+ * The text a wallet signs to prove its address, built by the client and parsed by the server.
+ */
+
+export interface SiweFields {
+  domain: string; // host the user is signing in to
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string; // issued by /api/auth/siwe/nonce
+  issuedAt: string; // ISO
+  expirationTime?: string; // ISO
+}
+
+export const SIWE_STATEMENT = 'Sign in to OG Route';
+export const SIWE_NONCE_TTL_MINUTES = 10;
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const NONCE_PATTERN = /^[A-Za-z0-9]{8,}$/;
+
+const FIELD_LABELS: Array<[keyof SiweFields, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time']
+];
+
+export class SiweMessage {
+  static format(fields: SiweFields): string {
+    const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address, ''];
+    if (fields.statement) {
+      lines.push(fields.statement, '');
+    }
+    FIELD_LABELS.forEach(([key, label]) => {
+      if (fields[key] !== undefined) lines.push(`${label}: ${fields[key]}`);
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * Read the fields back out of a signed message; throws when it isn't one we'd issue
+   */
+  static parse(message: unknown): SiweFields {
+    if (typeof message !== 'string') {
+      throw new Error('message is required');
+    }
+    const lines = message.split('\n');
+    const [header, address, blank] = lines;
+    if (!header?.endsWith(HEADER_SUFFIX) || !ADDRESS_PATTERN.test(address || '') || blank !== '') {
+      throw new Error('message is not a Sign-In with Ethereum message');
+    }
+
+    let rest = lines.slice(3);
+    let statement: string | undefined;
+    if (rest.length > 1 && !rest[0].includes(': ') && rest[1] === '') {
+      statement = rest[0];
+      rest = rest.slice(2);
+    }
+
+    const values = new Map<string, string>();
+    rest.forEach(line => {
+      const separator = line.indexOf(': ');
+      if (separator > 0) values.set(line.slice(0, separator), line.slice(separator + 2));
+    });
+    const field = (label: string) => values.get(label);
+
+    const chainId = Number(field('Chain ID'));
+    const nonce = field('Nonce') || '';
+    const issuedAt = field('Issued At') || '';
+    const expirationTime = field('Expiration Time');
+    if (field('Version') !== '1' || !Number.isInteger(chainId) || !field('URI')) {
+      throw new Error('message is missing its URI, version or chain');
+    }
+    if (!NONCE_PATTERN.test(nonce)) {
+      throw new Error('message has an invalid nonce');
+    }
+    if (Number.isNaN(Date.parse(issuedAt)) || (expirationTime !== undefined && Number.isNaN(Date.parse(expirationTime)))) {
+      throw new Error('message has an invalid timestamp');
+    }
+
+    return {
+      domain: header.slice(0, -HEADER_SUFFIX.length),
+      address,
+      statement,
+      uri: field('URI')!,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt,
+      expirationTime
+    };
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Storage Metadata Service
- * Tracks all data uploaded to 0G Storage for future retrieval and AI training
+ * Tracks all data uploaded to 0G Storage for future retrieval and AI training,
+ * and how the server's metadata listings are filtered and paged
  */
 
 export interface StorageMetadata {
@@ -8,14 +9,50 @@ export interface StorageMetadata {
   rootHash: string;
   txHash: string;
   timestamp: string;
-  dataType: 'traffic_conditions' | 'route_data' | 'ai_insights';
+  dataType: 'traffic_conditions' | 'route_data' | 'ai_insights' | 'incident_reports';
   description: string;
+  owner?: string; // wallet address of the uploader, for Sign-In with Ethereum users
   size?: number;
   metadata?: any;
 }
 
+// A server listing of one user's uploads, newest first
+export interface StorageMetadataQuery {
+  dataType?: string;
+  from?: string; // ISO, inclusive
+  to?: string; // ISO, exclusive
+  cursor?: StorageMetadataCursor;
+  limit: number;
+}
+
+// Position after the last entry of a page; sent back as `${timestamp}|${id}`
+export interface StorageMetadataCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface StorageMetadataPage<T = StorageMetadata> {
+  totalFiles: number; // all entries matching the filters, across pages
+  byType: Record<string, number>;
+  metadata: T[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_METADATA_PAGE_SIZE = 50;
+export const MAX_METADATA_PAGE_SIZE = 500;
+const MAX_DATA_TYPE_LENGTH = 64;
+
 const STORAGE_KEY = '0g_storage_metadata';
 
+const parseDate = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`${field} must be a date`);
+  }
+  return new Date(time).toISOString();
+};
+
 export class StorageMetadataService {
   /**
    * Save metadata about uploaded file
@@ -57,6 +94,14 @@ export class StorageMetadataService {
     return all.filter(m => m.dataType === dataType);
   }
 
+  /**
+   * Get uploads made by a wallet
+   */
+  static getByOwner(address: string): StorageMetadata[] {
+    const all = this.getAllMetadata();
+    return all.filter(m => m.owner?.toLowerCase() === address.toLowerCase());
+  }
+
   /**
    * Get recent uploads
    */
@@ -87,6 +132,44 @@ export class StorageMetadataService {
     };
   }
 
+  static encodeCursor(entry: { timestamp: string; id: string }): string {
+    return `${entry.timestamp}|${entry.id}`;
+  }
+
+  /**
+   * Validate listing query parameters (dataType, from, to, cursor, limit)
+   */
+  static parseQuery(query: Record<string, unknown>, defaultLimit: number = DEFAULT_METADATA_PAGE_SIZE): StorageMetadataQuery {
+    const limit = query.limit === undefined ? defaultLimit : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_METADATA_PAGE_SIZE) {
+      throw new Error(`limit must be between 1 and ${MAX_METADATA_PAGE_SIZE}`);
+    }
+    const dataType = query.dataType;
+    if (dataType !== undefined && (typeof dataType !== 'string' || dataType.length > MAX_DATA_TYPE_LENGTH)) {
+      throw new Error('dataType must be a string');
+    }
+
+    let cursor: StorageMetadataCursor | undefined;
+    if (query.cursor !== undefined) {
+      const value = typeof query.cursor === 'string' ? query.cursor : '';
+      const separator = value.indexOf('|');
+      const timestamp = value.slice(0, separator);
+      const id = value.slice(separator + 1);
+      if (separator < 1 || !id) {
+        throw new Error('cursor is invalid');
+      }
+      cursor = { timestamp, id };
+    }
+
+    return {
+      dataType: dataType || undefined,
+      from: parseDate(query.from, 'from'),
+      to: parseDate(query.to, 'to'),
+      cursor,
+      limit
+    };
+  }
+
   /**
    * Clear all metadata
    */
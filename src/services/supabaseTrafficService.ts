@@ -8,6 +8,7 @@ import {
   TrafficDataCollection,
   StoredTrafficData 
 } from '../types/trafficStorage';
+import { boundsAround, haversineKm } from './geo';
 
 interface SupabaseTrafficPattern {
   id?: string;
@@ -351,13 +352,14 @@ export class SupabaseTrafficService {
     if (!(await this.isAvailable())) return [];
 
     try {
+      const bounds = boundsAround(location, radiusKm * 1000);
       const { data, error } = await this.supabase
         .from('traffic_hotspots')
         .select('*')
-        .gte('latitude', location.lat - (radiusKm / 111)) // Rough conversion to degrees
-        .lte('latitude', location.lat + (radiusKm / 111))
-        .gte('longitude', location.lng - (radiusKm / (111 * Math.cos(location.lat * Math.PI / 180))))
-        .lte('longitude', location.lng + (radiusKm / (111 * Math.cos(location.lat * Math.PI / 180))))
+        .gte('latitude', bounds.south)
+        .lte('latitude', bounds.north)
+        .gte('longitude', bounds.west)
+        .lte('longitude', bounds.east)
         .order('average_congestion', { ascending: false });
 
       if (error) {
@@ -365,7 +367,10 @@ export class SupabaseTrafficService {
         return [];
       }
 
-      return data.map(this.convertSupabaseHotspotToHotspot);
+      // The box query includes its corners; keep only hotspots inside the radius
+      return data
+        .map(this.convertSupabaseHotspotToHotspot)
+        .filter(hotspot => haversineKm(location, hotspot.location) <= radiusKm);
     } catch (error) {
       console.error('Error getting nearby hotspots:', error);
       return [];
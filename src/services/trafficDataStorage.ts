@@ -5,10 +5,21 @@ import {
   AlternativeRoute, 
   TrafficAnalytics, 
   TrafficDataCollection,
-  StoredTrafficData 
+  StoredTrafficData,
+  TripRecord,
+  TripAccuracy
 } from '../types/trafficStorage';
 import { SupabaseTrafficService } from './supabaseTrafficService';
 import { ZeroGStorageService } from './0gStorageService';
+import { haversineKm } from './geo';
+import {
+  ObservationRecord,
+  PredictionEvaluation,
+  PredictionEvaluator,
+  PredictionRecord,
+  SEVERITY_CONGESTION
+} from './predictionEvaluation';
+import { isHoliday } from './trafficForecast';
 
 export class TrafficDataStorageService {
   private static instance: TrafficDataStorageService;
@@ -16,8 +27,17 @@ export class TrafficDataStorageService {
   private hotspots: Map<string, TrafficHotspot> = new Map();
   private alternativeRoutes: Map<string, AlternativeRoute[]> = new Map();
   private storedData: Map<string, StoredTrafficData> = new Map();
+  private trips: Map<string, TripRecord> = new Map();
+  private predictionLog: PredictionRecord[] = [];
+  private observationLog: ObservationRecord[] = [];
+  private evaluationCache: { key: string; expiresAt: number; evaluation: PredictionEvaluation } | null = null;
   private readonly STORAGE_KEY = 'og_route_traffic_data';
   private readonly MAX_STORAGE_SIZE = 5 * 1024 * 1024; // 5MB limit
+  private readonly MIN_OBSERVATION_INTERVAL_MS = 10 * 60 * 1000;
+  private readonly MAX_TRIPS = 200;
+  private readonly MAX_EVALUATION_RECORDS = 2000;
+  // Pending predictions become scorable as their windows close, so a cached score also ages out
+  private readonly EVALUATION_CACHE_MS = 5 * 60 * 1000;
   private supabaseService: SupabaseTrafficService;
 
   static getInstance(): TrafficDataStorageService {
@@ -134,7 +154,7 @@ export class TrafficDataStorageService {
       month,
       season,
       weatherConditions: collection.weatherConditions,
-      isHoliday: this.isHoliday(date),
+      isHoliday: isHoliday(date),
       isWeekend: this.isWeekend(dayOfWeek),
       isRushHour
     };
@@ -309,7 +329,8 @@ export class TrafficDataStorageService {
       peakTrafficDays,
       seasonalTrends,
       topHotspots,
-      routeRecommendations
+      routeRecommendations,
+      predictionAccuracy: this.getTripAccuracy()
     };
   }
 
@@ -320,7 +341,7 @@ export class TrafficDataStorageService {
     const hotspots = Array.from(this.hotspots.values());
     
     return hotspots.filter(hotspot => {
-      const distance = this.calculateDistance(location, hotspot.location);
+      const distance = haversineKm(location, hotspot.location);
       return distance <= radiusKm;
     }).sort((a, b) => b.averageCongestion - a.averageCongestion);
   }
@@ -344,6 +365,54 @@ export class TrafficDataStorageService {
     });
   }
 
+  /**
+   * Past route observations between two places. Endpoints match within radiusKm,
+   * since GPS origins rarely repeat to the 4 decimals used in route keys.
+   */
+  async getRouteHistory(
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+    radiusKm: number = 0.5
+  ): Promise<AlternativeRoute[]> {
+    return Array.from(this.alternativeRoutes.values())
+      .flat()
+      .filter(route =>
+        haversineKm(origin, route.origin) <= radiusKm &&
+        haversineKm(destination, route.destination) <= radiusKm
+      );
+  }
+
+  /**
+   * Record route estimates observed at request time, at most one per route every 10 minutes
+   */
+  async recordRouteObservations(routes: AlternativeRoute[]): Promise<void> {
+    if (routes.length === 0) return;
+
+    const previous = await this.getRouteHistory(routes[0].origin, routes[0].destination);
+    let recorded = 0;
+
+    routes.forEach(route => {
+      const isDuplicate = previous.some(entry =>
+        entry.routeName === route.routeName &&
+        route.timestamp.getTime() - new Date(entry.timestamp).getTime() < this.MIN_OBSERVATION_INTERVAL_MS
+      );
+      if (isDuplicate) return;
+
+      const routeKey = this.getRouteKey(route.origin, route.destination);
+      const routeList = this.alternativeRoutes.get(routeKey) || [];
+      routeList.push(route);
+      if (routeList.length > 100) {
+        routeList.splice(0, routeList.length - 100);
+      }
+      this.alternativeRoutes.set(routeKey, routeList);
+      recorded++;
+    });
+
+    if (recorded > 0) {
+      this.saveToStorage();
+    }
+  }
+
   /**
    * Get traffic patterns for a specific time period
    */
@@ -360,6 +429,123 @@ export class TrafficDataStorageService {
     );
   }
 
+  /**
+   * All stored patterns within radiusKm of a location, for fitting forecasts
+   */
+  async getTrafficPatternsNear(location: { lat: number; lng: number }, radiusKm: number = 5): Promise<TrafficPattern[]> {
+    return Array.from(this.trafficPatterns.values())
+      .flat()
+      .filter(pattern => haversineKm(location, pattern.location) <= radiusKm);
+  }
+
+  /**
+   * Store a completed trip as ground truth for the route's prediction
+   */
+  async storeTrip(trip: TripRecord): Promise<void> {
+    this.trips.set(trip.id, trip);
+    if (this.trips.size > this.MAX_TRIPS) {
+      const oldest = Array.from(this.trips.values())
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+        .slice(0, this.trips.size - this.MAX_TRIPS);
+      oldest.forEach(entry => this.trips.delete(entry.id));
+    }
+    this.saveToStorage();
+    console.log(`✅ Stored trip ${trip.id}: predicted ${Math.round(trip.predictedDuration / 60)} min, took ${Math.round(trip.actualDuration / 60)} min`);
+  }
+
+  /**
+   * Recorded trips, newest first
+   */
+  async getTrips(since?: Date): Promise<TripRecord[]> {
+    return Array.from(this.trips.values())
+      .filter(trip => !since || new Date(trip.startTime) >= since)
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  }
+
+  /**
+   * How far route predictions were from recorded trips
+   */
+  getTripAccuracy(): TripAccuracy {
+    const trips = Array.from(this.trips.values()).filter(trip => trip.predictedDuration > 0);
+    if (trips.length === 0) {
+      return { trips: 0, meanErrorMinutes: 0, meanAbsoluteErrorMinutes: 0, meanAbsolutePercentError: 0 };
+    }
+
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+      trips: trips.length,
+      meanErrorMinutes: round(mean(trips.map(trip => trip.predictionError / 60))),
+      meanAbsoluteErrorMinutes: round(mean(trips.map(trip => Math.abs(trip.predictionError) / 60))),
+      meanAbsolutePercentError: round(mean(trips.map(trip => Math.abs(trip.predictionError) / trip.predictedDuration * 100)))
+    };
+  }
+
+  /**
+   * Log congestion predictions so they can be scored once their window has passed.
+   * A newer prediction for the same source, place and window replaces the older one.
+   */
+  recordPredictions(records: PredictionRecord[]): void {
+    if (records.length === 0) return;
+    this.predictionLog = PredictionEvaluator.latestPerWindow([...this.predictionLog, ...records])
+      .slice(-this.MAX_EVALUATION_RECORDS);
+    this.saveToStorage();
+  }
+
+  /**
+   * Log observed conditions (e.g. TrafficCondition snapshots) for scoring predictions
+   */
+  recordObservations(records: ObservationRecord[]): void {
+    if (records.length === 0) return;
+    this.observationLog = [...this.observationLog, ...records].slice(-this.MAX_EVALUATION_RECORDS);
+    this.saveToStorage();
+  }
+
+  /**
+   * Logged predictions and observations; each recorded trip adds one observation at its midpoint
+   */
+  getEvaluationRecords(): { predictions: PredictionRecord[]; observations: ObservationRecord[] } {
+    const tripObservations = Array.from(this.trips.values())
+      .filter(trip => trip.track.length > 0)
+      .map((trip): ObservationRecord => {
+        const middle = trip.track[Math.floor(trip.track.length / 2)];
+        return {
+          id: `obs_${trip.id}`,
+          source: 'trip',
+          location: { lat: middle.lat, lng: middle.lng },
+          observedAt: new Date(middle.timestamp).toISOString(),
+          congestion: SEVERITY_CONGESTION[trip.actualTrafficLevel],
+          severity: trip.actualTrafficLevel
+        };
+      });
+
+    return {
+      predictions: this.predictionLog,
+      observations: [...this.observationLog, ...tripObservations]
+    };
+  }
+
+  /**
+   * Score of the logged predictions, recomputed only when the logs or trips change or the cache ages out
+   */
+  getPredictionEvaluation(): PredictionEvaluation {
+    const lastId = (records: { id: string }[]) => records[records.length - 1]?.id ?? '';
+    const key = [
+      this.predictionLog.length, lastId(this.predictionLog),
+      this.observationLog.length, lastId(this.observationLog),
+      this.trips.size, lastId(Array.from(this.trips.values()))
+    ].join('|');
+    if (this.evaluationCache?.key === key && Date.now() < this.evaluationCache.expiresAt) {
+      return this.evaluationCache.evaluation;
+    }
+
+    const { predictions, observations } = this.getEvaluationRecords();
+    const evaluation = PredictionEvaluator.evaluate(predictions, observations);
+    this.evaluationCache = { key, expiresAt: Date.now() + this.EVALUATION_CACHE_MS, evaluation };
+    return evaluation;
+  }
+
   // Helper methods
   private getLocationKey(location: { lat: number; lng: number }): string {
     return `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`;
@@ -388,19 +574,6 @@ export class TrafficDataStorageService {
     return dayOfWeek === 0 || dayOfWeek === 6; // Sunday or Saturday
   }
 
-  private isHoliday(date: Date): boolean {
-    // Simple holiday check - you can expand this
-    const month = date.getMonth() + 1;
-    const day = date.getDate();
-    
-    // Major holidays (simplified)
-    if (month === 1 && day === 1) return true; // New Year's Day
-    if (month === 7 && day === 4) return true; // Independence Day
-    if (month === 12 && day === 25) return true; // Christmas
-    
-    return false;
-  }
-
   private updatePeakHours(hotspot: TrafficHotspot, pattern: TrafficPattern): void {
     if (!hotspot.peakHours.includes(pattern.hourOfDay)) {
       hotspot.peakHours.push(pattern.hourOfDay);
@@ -435,17 +608,6 @@ export class TrafficDataStorageService {
     return [];
   }
 
-  private calculateDistance(loc1: { lat: number; lng: number }, loc2: { lat: number; lng: number }): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = (loc2.lat - loc1.lat) * Math.PI / 180;
-    const dLng = (loc2.lng - loc1.lng) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(loc1.lat * Math.PI / 180) * Math.cos(loc2.lat * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  }
-
   private getEmptyAnalytics(): TrafficAnalytics {
     return {
       totalDataPoints: 0,
@@ -454,7 +616,8 @@ export class TrafficDataStorageService {
       peakTrafficDays: [],
       seasonalTrends: [],
       topHotspots: [],
-      routeRecommendations: []
+      routeRecommendations: [],
+      predictionAccuracy: this.getTripAccuracy()
     };
   }
 
@@ -483,12 +646,22 @@ export class TrafficDataStorageService {
       if (data.storedData) {
         this.storedData = new Map(Object.entries(data.storedData));
       }
+      if (data.trips) {
+        this.trips = new Map(Object.entries(data.trips));
+      }
+      if (data.predictionLog) {
+        this.predictionLog = data.predictionLog;
+      }
+      if (data.observationLog) {
+        this.observationLog = data.observationLog;
+      }
 
       console.log('✅ Loaded traffic data from localStorage:', {
         patterns: this.trafficPatterns.size,
         hotspots: this.hotspots.size,
         routes: this.alternativeRoutes.size,
-        stored: this.storedData.size
+        stored: this.storedData.size,
+        trips: this.trips.size
       });
       
     } catch (error) {
@@ -508,6 +681,9 @@ export class TrafficDataStorageService {
         hotspots: Object.fromEntries(this.hotspots),
         alternativeRoutes: Object.fromEntries(this.alternativeRoutes),
         storedData: Object.fromEntries(this.storedData),
+        trips: Object.fromEntries(this.trips),
+        predictionLog: this.predictionLog,
+        observationLog: this.observationLog,
         lastSaved: new Date().toISOString()
       };
 
@@ -536,6 +712,7 @@ export class TrafficDataStorageService {
     const patternsToKeep = Math.floor(this.trafficPatterns.size * 0.5);
     const routesToKeep = Math.floor(this.alternativeRoutes.size * 0.5);
     const storedToKeep = Math.floor(this.storedData.size * 0.5);
+    const tripsToKeep = Math.floor(this.trips.size * 0.5);
 
     // Sort by timestamp and keep most recent
     const sortedPatterns = Array.from(this.trafficPatterns.entries())
@@ -558,15 +735,23 @@ export class TrafficDataStorageService {
       .sort(([,a], [,b]) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, storedToKeep);
 
+    const sortedTrips = Array.from(this.trips.entries())
+      .sort(([,a], [,b]) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+      .slice(0, tripsToKeep);
+
     // Update Maps with cleaned data
     this.trafficPatterns = new Map(sortedPatterns);
     this.alternativeRoutes = new Map(sortedRoutes);
     this.storedData = new Map(sortedStored);
+    this.trips = new Map(sortedTrips);
+    this.predictionLog = this.predictionLog.slice(-Math.floor(this.predictionLog.length * 0.5));
+    this.observationLog = this.observationLog.slice(-Math.floor(this.observationLog.length * 0.5));
 
     console.log('🧹 Cleaned old traffic data:', {
       patterns: this.trafficPatterns.size,
       routes: this.alternativeRoutes.size,
-      stored: this.storedData.size
+      stored: this.storedData.size,
+      trips: this.trips.size
     });
 
     // Try saving again
@@ -582,6 +767,9 @@ export class TrafficDataStorageService {
       hotspots: Object.fromEntries(this.hotspots),
       alternativeRoutes: Object.fromEntries(this.alternativeRoutes),
       storedData: Object.fromEntries(this.storedData),
+      trips: Object.fromEntries(this.trips),
+      predictionLog: this.predictionLog,
+      observationLog: this.observationLog,
       exportedAt: new Date().toISOString(),
       version: '1.0'
     };
@@ -608,6 +796,15 @@ export class TrafficDataStorageService {
       if (data.storedData) {
         this.storedData = new Map(Object.entries(data.storedData));
       }
+      if (data.trips) {
+        this.trips = new Map(Object.entries(data.trips));
+      }
+      if (data.predictionLog) {
+        this.predictionLog = data.predictionLog;
+      }
+      if (data.observationLog) {
+        this.observationLog = data.observationLog;
+      }
 
       this.saveToStorage();
       console.log('✅ Imported traffic data successfully');
@@ -627,6 +824,9 @@ export class TrafficDataStorageService {
     this.hotspots.clear();
     this.alternativeRoutes.clear();
     this.storedData.clear();
+    this.trips.clear();
+    this.predictionLog = [];
+    this.observationLog = [];
     
     if (typeof window !== 'undefined') {
       localStorage.removeItem(this.STORAGE_KEY);
@@ -643,6 +843,7 @@ export class TrafficDataStorageService {
     totalHotspots: number;
     totalRoutes: number;
     totalStored: number;
+    totalTrips: number;
     storageSize: number;
     lastSaved?: string;
   } {
@@ -654,6 +855,7 @@ export class TrafficDataStorageService {
       totalHotspots: this.hotspots.size,
       totalRoutes: this.alternativeRoutes.size,
       totalStored: this.storedData.size,
+      totalTrips: this.trips.size,
       storageSize,
       lastSaved: typeof window !== 'undefined' ? 
         localStorage.getItem(`${this.STORAGE_KEY}_lastSaved`) : undefined
@@ -802,13 +1004,20 @@ export class TrafficDataStorageService {
           trafficPatterns: Array.from(this.trafficPatterns.entries()),
           hotspots: Array.from(this.hotspots.entries()),
           alternativeRoutes: Array.from(this.alternativeRoutes.entries()),
-          storedData: Array.from(this.storedData.entries())
+          storedData: Array.from(this.storedData.entries()),
+          trips: Array.from(this.trips.entries()),
+          // Forecast scoring starts from these, so they travel with the trips
+          predictionLog: this.predictionLog,
+          observationLog: this.observationLog
         },
         statistics: {
           totalPatterns: this.trafficPatterns.size,
           totalHotspots: this.hotspots.size,
           totalRoutes: this.alternativeRoutes.size,
-          totalStored: this.storedData.size
+          totalStored: this.storedData.size,
+          totalTrips: this.trips.size,
+          totalPredictions: this.predictionLog.length,
+          totalObservations: this.observationLog.length
         },
         timestamp: new Date().toISOString(),
         version: '1.0'
@@ -865,6 +1074,15 @@ export class TrafficDataStorageService {
       if (backupData.data.storedData) {
         this.storedData = new Map(Object.entries(backupData.data.storedData));
       }
+      if (backupData.data.trips) {
+        this.trips = new Map(backupData.data.trips);
+      }
+      if (backupData.data.predictionLog) {
+        this.predictionLog = backupData.data.predictionLog;
+      }
+      if (backupData.data.observationLog) {
+        this.observationLog = backupData.data.observationLog;
+      }
 
       // Save restored data to localStorage
       this.saveToStorage();
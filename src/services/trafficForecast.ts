@@ -0,0 +1,195 @@
+/**
+ * Traffic Forecast
+ * Seasonal congestion model fitted to stored TrafficPattern history: a baseline per
+ * hour of the week, holiday and weather adjustments, and a current-reading anomaly
+ * that decays exponentially over the horizon. Forecasts carry 80% prediction intervals.
+ */
+
+import type { TrafficPattern } from '../types/trafficStorage';
+
+export interface CurrentReading {
+  congestion: number; // 0-100
+  observedAt: Date;
+}
+
+export interface ForecastOptions {
+  current?: CurrentReading;
+  weather?: string;
+}
+
+export interface ForecastPoint {
+  time: Date;
+  congestion: number;
+  lower: number;
+  upper: number;
+  baseline: number; // seasonal expectation before the current-reading adjustment
+}
+
+interface BucketStats {
+  mean: number;
+  stddev: number;
+}
+
+// Relative congestion by hour of day, used only when a location has no history
+export const FALLBACK_HOURLY_FACTORS = [
+  0.2, 0.15, 0.1, 0.1, 0.15, 0.3,
+  0.6, 0.9, 1.2, 0.8, 0.6, 0.7,
+  0.8, 0.7, 0.6, 0.7, 0.9, 1.3,
+  1.1, 0.8, 0.6, 0.5, 0.4, 0.3
+];
+
+const HOURS_PER_WEEK = 168;
+const HOUR_MS = 60 * 60 * 1000;
+// How many observations the prior (hour of day, then the fallback table shape) is worth
+const PRIOR_WEIGHT = 3;
+// Share of the current anomaly that persists after one hour
+const PERSISTENCE = 0.7;
+// z-score of an 80% two-sided interval
+const INTERVAL_Z = 1.2816;
+const DEFAULT_STDDEV = 15;
+const MIN_STDDEV = 3;
+// Observations needed before a holiday or weather adjustment is learned rather than assumed
+const MIN_ADJUSTMENT_SAMPLES = 3;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const hourOfWeek = (date: Date) => date.getDay() * 24 + date.getHours();
+
+export function isHoliday(date: Date): boolean {
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+
+  if (month === 1 && day === 1) return true; // New Year's Day
+  if (month === 7 && day === 4) return true; // Independence Day
+  if (month === 12 && day === 25) return true; // Christmas
+
+  return false;
+}
+
+export class TrafficForecastModel {
+  private constructor(
+    private readonly buckets: BucketStats[],
+    private readonly holidayRatio: number,
+    private readonly weatherRatios: Map<string, number>,
+    readonly samples: number
+  ) {}
+
+  /**
+   * Fit the model to a location's history; null when there is none
+   */
+  static fit(patterns: TrafficPattern[]): TrafficForecastModel | null {
+    const observations = patterns
+      .map(pattern => ({ ...pattern, time: new Date(pattern.timestamp) }))
+      .filter(pattern => Number.isFinite(pattern.congestionLevel) && !Number.isNaN(pattern.time.getTime()));
+    if (observations.length === 0) return null;
+
+    // Holidays behave differently; keep them out of the regular weekly profile
+    const regular = observations.filter(pattern => !isHoliday(pattern.time));
+    const profile = regular.length > 0 ? regular : observations;
+    const globalMean = mean(profile.map(pattern => pattern.congestionLevel));
+    const tableMean = mean(FALLBACK_HOURLY_FACTORS);
+
+    const hourMeans = Array.from({ length: 24 }, (_, hour) => {
+      const values = profile.filter(pattern => pattern.time.getHours() === hour).map(pattern => pattern.congestionLevel);
+      const prior = globalMean * FALLBACK_HOURLY_FACTORS[hour] / tableMean;
+      return (values.reduce((sum, value) => sum + value, 0) + PRIOR_WEIGHT * prior) / (values.length + PRIOR_WEIGHT);
+    });
+
+    const bucketValues = Array.from({ length: HOURS_PER_WEEK }, () => [] as number[]);
+    profile.forEach(pattern => bucketValues[hourOfWeek(pattern.time)].push(pattern.congestionLevel));
+
+    const bucketMeans = bucketValues.map((values, index) =>
+      (values.reduce((sum, value) => sum + value, 0) + PRIOR_WEIGHT * hourMeans[index % 24]) / (values.length + PRIOR_WEIGHT)
+    );
+
+    const residuals = profile.map(pattern => pattern.congestionLevel - bucketMeans[hourOfWeek(pattern.time)]);
+    const globalVariance = residuals.length > 1
+      ? residuals.reduce((sum, residual) => sum + residual * residual, 0) / (residuals.length - 1)
+      : DEFAULT_STDDEV * DEFAULT_STDDEV;
+
+    const buckets = bucketValues.map((values, index) => {
+      const squared = values.reduce((sum, value) => sum + (value - bucketMeans[index]) ** 2, 0);
+      const variance = (squared + PRIOR_WEIGHT * globalVariance) / (values.length + PRIOR_WEIGHT);
+      return { mean: bucketMeans[index], stddev: Math.max(MIN_STDDEV, Math.sqrt(variance)) };
+    });
+
+    // Holidays default to looking like a Sunday at the same hour; learn how far off that is
+    const sundayBaseline = (time: Date) => buckets[time.getHours()].mean;
+    const holidays = observations.filter(pattern => isHoliday(pattern.time));
+    const holidayRatio = holidays.length >= MIN_ADJUSTMENT_SAMPLES
+      ? mean(holidays.map(pattern => pattern.congestionLevel / Math.max(1, sundayBaseline(pattern.time))))
+      : 1;
+
+    const weatherGroups = new Map<string, number[]>();
+    profile.forEach(pattern => {
+      const weather = pattern.weatherConditions?.trim().toLowerCase();
+      if (!weather) return;
+      const ratio = pattern.congestionLevel / Math.max(1, buckets[hourOfWeek(pattern.time)].mean);
+      weatherGroups.set(weather, [...(weatherGroups.get(weather) || []), ratio]);
+    });
+    const weatherRatios = new Map(
+      Array.from(weatherGroups.entries())
+        .filter(([, ratios]) => ratios.length >= MIN_ADJUSTMENT_SAMPLES)
+        .map(([weather, ratios]) => [weather, mean(ratios)])
+    );
+
+    return new TrafficForecastModel(buckets, holidayRatio, weatherRatios, observations.length);
+  }
+
+  /**
+   * Hourly forecast from start; a current reading pulls the first hours toward it
+   */
+  forecast(start: Date, hours: number, options: ForecastOptions = {}): ForecastPoint[] {
+    const { current, weather } = options;
+    const anomaly = current ? current.congestion - this.expected(current.observedAt, weather).mean : 0;
+
+    return Array.from({ length: hours }, (_, index) => {
+      const time = new Date(start.getTime() + index * HOUR_MS);
+      const expected = this.expected(time, weather);
+
+      let congestion = expected.mean;
+      let stddev = expected.stddev;
+      if (current) {
+        // AR(1) anomaly: decays by PERSISTENCE per hour, and its error grows back toward the seasonal spread
+        const lagHours = Math.max(0, (time.getTime() - current.observedAt.getTime()) / HOUR_MS);
+        congestion += anomaly * PERSISTENCE ** lagHours;
+        stddev = Math.max(MIN_STDDEV, expected.stddev * Math.sqrt(1 - PERSISTENCE ** (2 * lagHours)));
+      }
+
+      return {
+        time,
+        congestion: clamp(congestion),
+        lower: clamp(congestion - INTERVAL_Z * stddev),
+        upper: clamp(congestion + INTERVAL_Z * stddev),
+        baseline: clamp(expected.mean)
+      };
+    });
+  }
+
+  /**
+   * Table-shaped forecast around a base congestion level, for locations with no history
+   */
+  static fallbackForecast(start: Date, hours: number, baseCongestion: number): ForecastPoint[] {
+    return Array.from({ length: hours }, (_, index) => {
+      const time = new Date(start.getTime() + index * HOUR_MS);
+      const congestion = clamp(baseCongestion * FALLBACK_HOURLY_FACTORS[time.getHours()]);
+      return {
+        time,
+        congestion,
+        lower: clamp(congestion - INTERVAL_Z * DEFAULT_STDDEV),
+        upper: clamp(congestion + INTERVAL_Z * DEFAULT_STDDEV),
+        baseline: congestion
+      };
+    });
+  }
+
+  private expected(time: Date, weather?: string): BucketStats {
+    const bucket = isHoliday(time) ? this.buckets[time.getHours()] : this.buckets[hourOfWeek(time)];
+    const holidayRatio = isHoliday(time) ? this.holidayRatio : 1;
+    const weatherRatio = (weather && this.weatherRatios.get(weather.trim().toLowerCase())) || 1;
+    const ratio = holidayRatio * weatherRatio;
+    return { mean: bucket.mean * ratio, stddev: bucket.stddev * ratio };
+  }
+}
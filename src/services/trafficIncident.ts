@@ -0,0 +1,152 @@
+/**
+ * Traffic Incidents
+ * Discrete events (accidents, roadworks, closures...) reported by incident feeds or
+ * users, and the spatial matching that attributes a condition's delay to one of them.
+ */
+
+import type { LatLng } from './routingProvider';
+import { SEVERITIES, Severity } from './predictionEvaluation';
+import type { TrafficCondition } from './trafficSource';
+import { distanceToPolylineMeters } from './geo';
+
+export type IncidentCategory =
+  | 'accident'
+  | 'breakdown'
+  | 'roadworks'
+  | 'closure'
+  | 'congestion'
+  | 'hazard'
+  | 'weather'
+  | 'event'
+  | 'transit-disruption'
+  | 'other';
+
+export type IncidentGeometry =
+  | { type: 'Point'; coordinates: LatLng }
+  | { type: 'LineString'; coordinates: LatLng[] };
+
+export interface TrafficIncident {
+  id: string; // prefixed with the source name, unique across sources
+  category: IncidentCategory;
+  severity: Severity;
+  startTime: Date;
+  endTime: Date | null; // null while open-ended
+  lanesAffected: number | null; // null when the source doesn't say
+  source: string; // name of the IncidentSource that reported it
+  geometry: IncidentGeometry;
+  confidence: number; // 0-100
+  roadName?: string;
+  description?: string;
+}
+
+/**
+ * A feed of incidents around a location; TrafficService merges every configured one
+ */
+export interface IncidentSource {
+  readonly name: string;
+  fetchIncidents(center: LatLng, radiusKm: number): Promise<TrafficIncident[]>;
+}
+
+// What a condition's cause reads as; congestion and other say nothing about why there is a delay
+export const INCIDENT_CAUSES: Partial<Record<IncidentCategory, string>> = {
+  accident: 'Accident',
+  breakdown: 'Broken-down vehicle',
+  roadworks: 'Roadworks',
+  closure: 'Road closure',
+  hazard: 'Obstruction on the road',
+  weather: 'Weather conditions',
+  event: 'Event traffic',
+  'transit-disruption': 'Transit disruption'
+};
+
+// How far from the road section a condition was measured on an incident can be and still explain it
+const MATCH_RADIUS_METERS = 300;
+
+export function incidentPoints(incident: TrafficIncident): LatLng[] {
+  return incident.geometry.type === 'Point' ? [incident.geometry.coordinates] : incident.geometry.coordinates;
+}
+
+/**
+ * Point used to place an incident on a map: the point itself, or a line's middle vertex
+ */
+export function incidentLocation(incident: TrafficIncident): LatLng {
+  const points = incidentPoints(incident);
+  return points[Math.floor(points.length / 2)];
+}
+
+export function isIncidentActive(incident: TrafficIncident, at: Date): boolean {
+  return incident.startTime <= at && (incident.endTime === null || at < incident.endTime);
+}
+
+/**
+ * Show an incident that explains no measured condition as a condition of its own
+ */
+export function incidentToCondition(incident: TrafficIncident, observedAt: Date): TrafficCondition {
+  const location = incidentLocation(incident);
+  return {
+    id: incident.id,
+    location: {
+      lat: location.lat,
+      lng: location.lng,
+      address: incident.roadName || `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`
+    },
+    severity: incident.severity,
+    speed: null,
+    duration: null,
+    confidence: incident.confidence,
+    timestamp: observedAt,
+    predictedDuration: null,
+    affectedRoutes: incident.roadName ? [incident.roadName] : [],
+    source: incident.source,
+    cause: INCIDENT_CAUSES[incident.category],
+    incidentId: incident.id,
+    description: incident.description
+  };
+}
+
+export class IncidentMatcher {
+  /**
+   * Set cause on each delayed condition that an active incident on its road section explains.
+   * Returns the conditions and the incidents no condition was attributed to.
+   */
+  static attribute(
+    conditions: TrafficCondition[],
+    incidents: TrafficIncident[]
+  ): { conditions: TrafficCondition[]; unmatched: TrafficIncident[] } {
+    const matched = new Set<TrafficIncident>();
+
+    const attributed = conditions.map(condition => {
+      if (condition.severity === 'low' || condition.cause) return condition;
+
+      const candidates = incidents
+        .filter(incident => INCIDENT_CAUSES[incident.category] && isIncidentActive(incident, condition.timestamp))
+        .map(incident => ({ incident, distance: this.distanceMeters(incident, condition) }))
+        .filter(candidate => candidate.distance <= MATCH_RADIUS_METERS)
+        .sort((a, b) =>
+          SEVERITIES.indexOf(b.incident.severity) - SEVERITIES.indexOf(a.incident.severity) || a.distance - b.distance
+        );
+
+      const best = candidates[0]?.incident;
+      if (!best) return condition;
+
+      matched.add(best);
+      return { ...condition, cause: INCIDENT_CAUSES[best.category], incidentId: best.id };
+    });
+
+    return { conditions: attributed, unmatched: incidents.filter(incident => !matched.has(incident)) };
+  }
+
+  /**
+   * Distance between an incident and the road section a condition was measured on
+   * (its path when known, otherwise its location)
+   */
+  private static distanceMeters(incident: TrafficIncident, condition: TrafficCondition): number {
+    const section = condition.path && condition.path.length > 0 ? condition.path : [condition.location];
+    const points = incidentPoints(incident);
+
+    return Math.min(
+      ...points.map(point => distanceToPolylineMeters(point, section)),
+      ...section.map(point => distanceToPolylineMeters(point, points))
+    );
+  }
+}
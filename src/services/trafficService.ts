@@ -1,33 +1,35 @@
-import { GoogleMapsService, PlaceResult } from './googleMapsService';
 import { SupabaseService } from './supabaseService';
-
-
-export interface TrafficCondition {
-  id: string;
-  location: {
-    lat: number;
-    lng: number;
-    address: string;
-  };
-  severity: 'low' | 'moderate' | 'high' | 'severe';
-  speed: number;
-  duration: number;
-  confidence: number;
-  timestamp: Date;
-  predictedDuration: number;
-  affectedRoutes: string[];
-  cause?: string;
-  description?: string;
-}
+import { TrafficDataStorageService } from './trafficDataStorage';
+import { SEVERITY_CONGESTION, congestionToSeverity } from './predictionEvaluation';
+import { TrafficForecastModel } from './trafficForecast';
+import {
+  TrafficCondition,
+  TrafficSource,
+  collectTrafficConditions,
+  createIncidentSources,
+  createTrafficSources,
+  fetchActiveIncidents
+} from './trafficSource';
+import type { IncidentSource, TrafficIncident } from './trafficIncident';
+import { IncidentReportSource } from './incidentReportService';
+import { TrafficDelta, trafficStreamUrl } from './trafficStream';
+
+export type { TrafficCondition } from './trafficSource';
+export type { TrafficIncident } from './trafficIncident';
 
 export interface TrafficPrediction {
   timestamp: Date;
   predictions: {
     time: string;
     congestionLevel: number;
-    confidence: number;
+    confidence: number; // 100 minus the width of the 80% interval
+    lower: number;
+    upper: number;
+    baseline: number | null; // seasonal expectation from history; null without history
   }[];
-  accuracy: number;
+  model: 'seasonal' | 'hourly-table';
+  historySamples: number;
+  accuracy: number | null; // % of past forecasts whose severity matched what was observed; null until enough were scored
   factors: {
     weather: number;
     events: number;
@@ -36,9 +38,28 @@ export interface TrafficPrediction {
   };
 }
 
+// Forecasts scored before an accuracy figure is shown
+const MIN_EVALUATED_FORECASTS = 5;
+const HOUR_MS = 60 * 60 * 1000;
+const API_URL = import.meta.env.VITE_API_URL || '';
+
 export class TrafficService {
-  private static googleMapsService = GoogleMapsService.getInstance();
-  
+  private static sources: TrafficSource[] = createTrafficSources(import.meta.env);
+  private static incidentSources: IncidentSource[] = [new IncidentReportSource(), ...createIncidentSources(import.meta.env)];
+
+  /**
+   * Replace the configured sources, e.g. with a ReplayTrafficSource for offline testing
+   */
+  static setSources(sources: TrafficSource[], incidentSources: IncidentSource[] = this.incidentSources): void {
+    this.sources = sources;
+    this.incidentSources = incidentSources;
+  }
+
+  /**
+   * Measured conditions from every source, with cause set where an active incident on the
+   * same road section explains the delay. Incidents that explain none are listed as
+   * conditions of their own.
+   */
   static async getCurrentTrafficConditions(
     location: { lat: number; lng: number }, 
     radius: number = 10
@@ -46,34 +67,21 @@ export class TrafficService {
     try {
       console.log('Fetching traffic conditions for location:', location);
 
-      const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
-      if (!apiKey || apiKey === 'your_google_maps_api_key_here') {
-        throw new Error('Google Maps API key not configured');
+      if (this.sources.length === 0 && this.incidentSources.length === 0) {
+        throw new Error('No traffic sources configured');
       }
 
-      console.log('Initializing Google Maps service...');
-      await this.googleMapsService.loadGoogleMaps();
+      const { measured, conditions } = await collectTrafficConditions(this.sources, this.incidentSources, location, radius);
 
-      if (!window.google || !window.google.maps) {
-        throw new Error('Google Maps SDK not available');
-      }
-      console.log('Google Maps SDK initialized successfully');
-
-      console.log('Fetching REAL traffic data from Google Maps...');
-      const realConditions = await this.fetchRealTrafficData(location, radius);
-
-      if (realConditions.length > 0) {
-        console.log(`Found ${realConditions.length} REAL traffic conditions from Google Maps`);
-
-        this.saveConditionsToCache(realConditions).catch(error =>
+      if (measured.length > 0) {
+        this.saveConditionsToCache(measured).catch(error =>
           console.warn('Failed to cache traffic conditions:', error)
         );
-
-        return realConditions;
+        // Incidents aren't measurements of congestion, so only measured conditions are scored against
+        this.recordObservations(measured);
       }
 
-      console.log('No real traffic data available from Google Maps API');
-      return [];
+      return conditions;
 
     } catch (error) {
       console.error('Failed to fetch traffic conditions:', error);
@@ -81,286 +89,78 @@ export class TrafficService {
     }
   }
 
-  static async getTrafficPredictions(location: { lat: number; lng: number }): Promise<TrafficPrediction> {
+  /**
+   * Incidents active now from every incident source
+   */
+  static async getIncidents(location: { lat: number; lng: number }, radius: number = 10): Promise<TrafficIncident[]> {
+    return fetchActiveIncidents(this.incidentSources, location, radius);
+  }
+
+  static async getTrafficPredictions(
+    location: { lat: number; lng: number },
+    options: { weather?: string } = {}
+  ): Promise<TrafficPrediction> {
     try {
       console.log('Generating traffic predictions for location:', location);
 
       const currentConditions = await this.getCurrentTrafficConditions(location, 5);
 
-      return await this.generateRealTimePredictions(location, currentConditions);
+      return await this.generateRealTimePredictions(location, currentConditions, options.weather);
     } catch (error) {
       console.error('Failed to fetch traffic predictions:', error);
       return this.getEmptyPrediction();
     }
   }
 
-  private static async fetchRealTrafficData(
-    center: { lat: number; lng: number }, 
-    radius: number
-  ): Promise<TrafficCondition[]> {
-    console.log('=== STARTING REAL TRAFFIC FETCH ===');
-    console.log('Center:', center);
-    console.log('Radius:', radius);
-    
-    // Add timeout to prevent infinite loading
-    const timeoutPromise = new Promise<TrafficCondition[]>((_, reject) => {
-      setTimeout(() => reject(new Error('Traffic fetch timeout after 30 seconds')), 30000);
-    });
-    
-    const fetchPromise = (async (): Promise<TrafficCondition[]> => {
-      try {
-        // First ensure Google Maps is loaded
-        await this.googleMapsService.loadGoogleMaps();
-        console.log('Google Maps SDK loaded successfully');
-        
-        // Verify google object is available
-        if (!window.google || !window.google.maps) {
-          console.error('Google Maps SDK not available after loading');
-          return [];
-        }
-        
-        // Get the current location name for context
-        const currentLocationName = await this.getReverseGeocodedAddress(center.lat, center.lng);
-        console.log('Current location:', currentLocationName);
-        
-        // Find real places around the user instead of using random coordinates
-        const nearbyPlaces = await this.findNearbyPlaces(center, radius);
-        console.log(`Found ${nearbyPlaces.length} real places for traffic analysis`);
-        
-        if (nearbyPlaces.length === 0) {
-          console.log('No nearby places found, cannot get real traffic data');
-          return [];
-        }
-        
-        const conditions: TrafficCondition[] = [];
-        
-        // Test routes to real places to get actual traffic data
-        for (let i = 0; i < Math.min(nearbyPlaces.length, 5); i++) {
-          const place = nearbyPlaces[i];
-          console.log(`Testing route to: ${place.name} (${place.formatted_address})`);
-          
-          // Break early if we already found some traffic data to prevent long waits
-          if (conditions.length >= 3) {
-            console.log('Found sufficient traffic data, stopping early to prevent timeout');
-            break;
-          }
-        
-          try {
-            console.log('Making directions API call to real place...');
-            // Use the place's formatted address as destination (NOT coordinates!)
-            const directionsResult = await this.googleMapsService.calculateDirections(
-              center,
-              place.formatted_address, // Use real address instead of coordinates!
-              {
-                provideRouteAlternatives: false
-              }
-            );
-
-            console.log('Directions API response status:', directionsResult.status);
-            console.log('Number of routes:', directionsResult.routes?.length || 0);
-
-            if (directionsResult.status === 'OK' && directionsResult.routes.length > 0) {
-              const route = directionsResult.routes[0];
-              const leg = route.legs[0];
-              
-              console.log('Route summary:', route.summary);
-              console.log('Distance:', leg.distance?.text);
-              console.log('Duration:', leg.duration?.text);
-              console.log('Duration in traffic:', leg.duration_in_traffic?.text);
-              
-              // Only add if we have actual traffic data
-              if (leg.duration && leg.duration_in_traffic) {
-                const normalDuration = leg.duration.value / 60; // Convert to minutes
-                const trafficDuration = leg.duration_in_traffic.value / 60;
-                const delay = Math.max(0, trafficDuration - normalDuration);
-                const severity = this.calculateSeverityFromDelay(delay, normalDuration);
-                
-                console.log(`Traffic analysis: ${delay.toFixed(1)} min delay, severity: ${severity}`);
-                console.log('Adding REAL traffic condition from actual place');
-                
-                // Format the location name to avoid Plus Codes
-                const displayLocation = this.googleMapsService.formatLocationForDisplay(
-                  place.formatted_address, 
-                  place.name
-                );
-                
-                conditions.push({
-                  id: `real-traffic-${Date.now()}-${i}`,
-                  location: {
-                    lat: place.geometry.location.lat,
-                    lng: place.geometry.location.lng,
-                    address: displayLocation // Use readable location name
-                  },
-                  severity,
-                  speed: this.calculateSpeedFromDurations(leg.distance.value, leg.duration_in_traffic.value),
-                  duration: Math.round(trafficDuration),
-                  confidence: 95, // High confidence for real Google Maps data
-                  timestamp: new Date(),
-                  predictedDuration: Math.round(trafficDuration + (delay * 0.1)),
-                  affectedRoutes: [route.summary],
-                  cause: this.determineTrfficCause(severity, new Date().getHours()),
-                  description: `Real traffic to ${displayLocation}: ${severity.charAt(0).toUpperCase() + severity.slice(1)} conditions via ${route.summary}`
-                });
-              } else {
-                console.log('No traffic data available for this route');
-              }
-            } else {
-              console.log('No valid routes returned or bad status');
-            }
-          } catch (routeError) {
-            console.error(`Failed to get route data to ${place.name}:`, routeError);
-            continue;
-          }
-        }
-
-        console.log(`=== REAL TRAFFIC FETCH COMPLETE: Found ${conditions.length} real conditions ===`);
-        return conditions;
-      } catch (error) {
-        console.error('=== REAL TRAFFIC FETCH FAILED ===', error);
-        return [];
-      }
-    })();
-
-    try {
-      // Race between fetch and timeout
-      return await Promise.race([fetchPromise, timeoutPromise]);
-    } catch (error) {
-      console.error('Traffic fetch failed or timed out:', error);
-      return [];
-    }
-  }
-
-  private static async findNearbyPlaces(center: { lat: number; lng: number }, radius: number): Promise<PlaceResult[]> {
-    console.log('Finding nearby places for traffic analysis...');
-    
-    try {
-      // Search for various types of destinations that would have traffic
-      const searchQueries = [
-        `shopping malls near ${center.lat},${center.lng}`,
-        `hospitals near ${center.lat},${center.lng}`,
-        `schools near ${center.lat},${center.lng}`,
-        `banks near ${center.lat},${center.lng}`,
-        `restaurants near ${center.lat},${center.lng}`,
-        `government offices near ${center.lat},${center.lng}`
-      ];
-      
-      const allPlaces: PlaceResult[] = [];
-      
-      // Try each search query
-      for (const query of searchQueries) {
-        try {
-          console.log('Searching for:', query);
-          const places = await this.googleMapsService.searchPlaces(query);
-          
-          // Filter places within our radius (roughly)
-          const nearbyPlaces = places.filter(place => {
-            const distance = this.calculateDistance(
-              center.lat, center.lng,
-              place.geometry.location.lat, place.geometry.location.lng
-            );
-            return distance <= radius;
-          });
-          
-          allPlaces.push(...nearbyPlaces);
-          
-          if (allPlaces.length >= 10) break; // Stop when we have enough places
-        } catch (searchError) {
-          console.warn(`Search failed for "${query}":`, searchError);
-          continue;
-        }
-      }
-      
-      // Remove duplicates and limit results
-      const uniquePlaces = allPlaces.filter((place, index, self) => 
-        index === self.findIndex(p => p.place_id === place.place_id)
-      ).slice(0, 8);
-      
-      console.log(`Found ${uniquePlaces.length} unique nearby places:`, 
-        uniquePlaces.map(p => p.name).join(', '));
-      
-      return uniquePlaces;
-      
-    } catch (error) {
-      console.error('Failed to find nearby places:', error);
-      return [];
-    }
-  }
-
-  private static calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private static calculateSeverityFromDelay(delay: number, normalDuration: number): 'low' | 'moderate' | 'high' | 'severe' {
-    const delayPercentage = (delay / normalDuration) * 100;
-    
-    if (delayPercentage >= 50) return 'severe';
-    if (delayPercentage >= 25) return 'high';
-    if (delayPercentage >= 10) return 'moderate';
-    return 'low';
-  }
-
-  private static calculateSpeedFromDurations(distanceMeters: number, durationSeconds: number): number {
-    const distanceMiles = distanceMeters * 0.000621371;
-    const durationHours = durationSeconds / 3600;
-    return Math.round(distanceMiles / durationHours);
-  }
-
-  private static async getReverseGeocodedAddress(lat: number, lng: number): Promise<string | null> {
-    try {
-      // Use proper reverse geocoding to get place names
-      const address = await this.googleMapsService.reverseGeocode(lat, lng);
-      return address;
-    } catch (error) {
-      console.warn('Reverse geocoding failed:', error);
-      return null;
-    }
-  }
-
-  private static determineTrfficCause(severity: string, currentHour: number): string {
-    const causes = {
-      severe: ['Major accident', 'Road closure', 'Construction work'],
-      high: ['Heavy traffic', 'Event traffic', 'Rush hour congestion'],
-      moderate: ['Normal traffic', 'Minor delays', 'School zone'],
-      low: ['Light traffic', 'Normal flow', 'Clear roads']
-    };
-    
-    const severityCauses = causes[severity as keyof typeof causes] || causes.low;
-    return severityCauses[Math.floor(Math.random() * severityCauses.length)];
-  }
-
   private static async generateRealTimePredictions(
     location: { lat: number; lng: number },
-    currentConditions: TrafficCondition[]
+    currentConditions: TrafficCondition[],
+    weather?: string
   ): Promise<TrafficPrediction> {
-    const currentHour = new Date().getHours();
-    const predictions = [];
-
-    for (let i = 0; i < 12; i++) {
-      const hour = (currentHour + i) % 24;
-      const timeString = this.formatHour(hour);
-
-      const baseCongestion = this.calculateCurrentCongestionLevel(currentConditions);
-      const hourlyFactor = this.getHourlyTrafficFactor(hour);
-      const congestionLevel = Math.round(baseCongestion * hourlyFactor);
-
-      predictions.push({
-        time: timeString,
-        congestionLevel: Math.min(100, Math.max(0, congestionLevel)),
-        confidence: Math.max(60, 95 - (i * 3))
-      });
-    }
+    const now = new Date();
+    const hourStart = new Date(now);
+    hourStart.setMinutes(0, 0, 0);
+
+    const storage = TrafficDataStorageService.getInstance();
+    const history = await storage.getTrafficPatternsNear(location, 5);
+    const model = TrafficForecastModel.fit(history);
+    const points = model
+      ? model.forecast(now, 12, {
+          current: currentConditions.length > 0
+            ? { congestion: this.calculateCurrentCongestionLevel(currentConditions), observedAt: now }
+            : undefined,
+          weather
+        })
+      : TrafficForecastModel.fallbackForecast(now, 12, this.calculateCurrentCongestionLevel(currentConditions));
+
+    const predictions = points.map(point => ({
+      time: this.formatHour(point.time.getHours()),
+      congestionLevel: Math.round(point.congestion),
+      confidence: Math.round(100 - (point.upper - point.lower)),
+      lower: Math.round(point.lower),
+      upper: Math.round(point.upper),
+      baseline: model ? Math.round(point.baseline) : null
+    }));
+
+    storage.recordPredictions(predictions.map((prediction, i) => ({
+      id: `forecast-${now.getTime()}-${i}`,
+      source: 'hourly-forecast',
+      location: { lat: location.lat, lng: location.lng },
+      madeAt: now.toISOString(),
+      windowStart: (i === 0 ? now : new Date(hourStart.getTime() + i * HOUR_MS)).toISOString(),
+      windowEnd: new Date(hourStart.getTime() + (i + 1) * HOUR_MS).toISOString(),
+      congestion: prediction.congestionLevel,
+      severity: congestionToSeverity(prediction.congestionLevel)
+    })));
+
+    const forecastScore = storage.getPredictionEvaluation().bySource['hourly-forecast'];
 
     return {
-      timestamp: new Date(),
+      timestamp: now,
       predictions,
-      accuracy: 85 + Math.random() * 10,
+      model: model ? 'seasonal' : 'hourly-table',
+      historySamples: model?.samples ?? 0,
+      accuracy: forecastScore && forecastScore.evaluated >= MIN_EVALUATED_FORECASTS ? forecastScore.severityAccuracy : null,
       factors: {
         weather: 15,
         events: 10,
@@ -374,24 +174,12 @@ export class TrafficService {
     if (conditions.length === 0) return 20;
 
     const avgSeverity = conditions.reduce((sum, condition) => {
-      const severityValue = { low: 25, moderate: 50, high: 75, severe: 90 }[condition.severity];
-      return sum + severityValue;
+      return sum + SEVERITY_CONGESTION[condition.severity];
     }, 0) / conditions.length;
 
     return Math.round(avgSeverity);
   }
 
-  private static getHourlyTrafficFactor(hour: number): number {
-    const trafficPatterns: { [key: number]: number } = {
-      0: 0.2, 1: 0.15, 2: 0.1, 3: 0.1, 4: 0.15, 5: 0.3,
-      6: 0.6, 7: 0.9, 8: 1.2, 9: 0.8, 10: 0.6, 11: 0.7,
-      12: 0.8, 13: 0.7, 14: 0.6, 15: 0.7, 16: 0.9, 17: 1.3,
-      18: 1.1, 19: 0.8, 20: 0.6, 21: 0.5, 22: 0.4, 23: 0.3
-    };
-
-    return trafficPatterns[hour] || 0.5;
-  }
-
   private static formatHour(hour: number): string {
     const period = hour >= 12 ? 'PM' : 'AM';
     const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
@@ -402,7 +190,9 @@ export class TrafficService {
     return {
       timestamp: new Date(),
       predictions: [],
-      accuracy: 0,
+      model: 'hourly-table',
+      historySamples: 0,
+      accuracy: null,
       factors: {
         weather: 0,
         events: 0,
@@ -412,20 +202,41 @@ export class TrafficService {
     };
   }
 
+  /**
+   * Follow the server's traffic stream for a geohash area (trafficStreamArea). The first
+   * delta replaces everything (reset), later ones carry only what changed; apply them with
+   * applyTrafficDelta. The browser reconnects on its own after a dropped connection.
+   */
   static subscribeToTrafficUpdates(
-    location: { lat: number; lng: number },
-    callback: (conditions: TrafficCondition[]) => void
-  ) {
-    const updateInterval = setInterval(async () => {
+    area: string,
+    onDelta: (delta: TrafficDelta) => void,
+    onError?: (message: string) => void
+  ): () => void {
+    const stream = new EventSource(trafficStreamUrl(API_URL, area));
+
+    stream.onmessage = (event) => {
       try {
-        const conditions = await this.getCurrentTrafficConditions(location);
-        callback(conditions);
+        onDelta(JSON.parse(event.data));
       } catch (error) {
-        console.error('Failed to update traffic conditions:', error);
+        console.error('Failed to read traffic update:', error);
       }
-    }, 5 * 60 * 1000);
+    };
+    stream.onerror = () => {
+      onError?.('Live traffic updates disconnected, retrying...');
+    };
+
+    return () => stream.close();
+  }
 
-    return () => clearInterval(updateInterval);
+  private static recordObservations(conditions: TrafficCondition[]): void {
+    TrafficDataStorageService.getInstance().recordObservations(conditions.map(condition => ({
+      id: `observation-${condition.id}`,
+      source: 'traffic-condition',
+      location: { lat: condition.location.lat, lng: condition.location.lng },
+      observedAt: condition.timestamp.toISOString(),
+      congestion: SEVERITY_CONGESTION[condition.severity],
+      severity: condition.severity
+    })));
   }
 
   private static async saveConditionsToCache(conditions: TrafficCondition[]): Promise<void> {
@@ -0,0 +1,162 @@
+import type { LatLng } from './routingProvider';
+import type { Severity } from './predictionEvaluation';
+import { IncidentMatcher, IncidentSource, TrafficIncident, incidentToCondition, isIncidentActive } from './trafficIncident';
+import { GoogleProbeTrafficSource } from './googleProbeTrafficSource';
+import { GoogleDirectionsApiProvider } from './googleDirectionsApiProvider';
+import { IncidentFeedSource } from './incidentFeedSource';
+import { GtfsAlertsSource } from './gtfsAlertsSource';
+import { ReplayTrafficSource } from './replayTrafficSource';
+
+export interface TrafficCondition {
+  id: string;
+  location: {
+    lat: number;
+    lng: number;
+    address: string;
+  };
+  severity: Severity;
+  speed: number | null; // mph; null for conditions that stand for an incident
+  duration: number | null; // minutes
+  confidence: number;
+  timestamp: Date;
+  predictedDuration: number | null;
+  affectedRoutes: string[];
+  source: string; // name of the TrafficSource (or IncidentSource) that reported it
+  path?: LatLng[]; // road section the condition was measured along
+  cause?: string; // set only when an incident explains the delay
+  incidentId?: string;
+  description?: string;
+}
+
+/**
+ * A live feed of measured traffic conditions around a location.
+ * TrafficService merges the results of every configured source.
+ */
+export interface TrafficSource {
+  readonly name: string;
+  fetchConditions(center: LatLng, radiusKm: number): Promise<TrafficCondition[]>;
+}
+
+const PLACEHOLDER_API_KEY = 'your_google_maps_api_key_here';
+
+/**
+ * Measured-condition sources enabled by the environment; the Google probe only runs with a real API key
+ */
+export function createTrafficSources(env: Record<string, string | undefined>): TrafficSource[] {
+  const sources: TrafficSource[] = [];
+
+  const apiKey = env.VITE_GOOGLE_MAPS_API_KEY;
+  if (apiKey && apiKey !== PLACEHOLDER_API_KEY) {
+    sources.push(new GoogleProbeTrafficSource());
+  }
+
+  if (env.VITE_TRAFFIC_REPLAY_URL) {
+    sources.push(ReplayTrafficSource.fromUrl(env.VITE_TRAFFIC_REPLAY_URL));
+  }
+
+  return sources;
+}
+
+/**
+ * Server-side counterpart of createTrafficSources: the probe times routes with the Directions web service
+ */
+export function createServerTrafficSources(env: Record<string, string | undefined>): TrafficSource[] {
+  const sources: TrafficSource[] = [];
+
+  const apiKey = env.GOOGLE_MAPS_API_KEY || env.VITE_GOOGLE_MAPS_API_KEY;
+  if (apiKey && apiKey !== PLACEHOLDER_API_KEY) {
+    sources.push(new GoogleProbeTrafficSource(new GoogleDirectionsApiProvider(apiKey)));
+  }
+
+  const replayUrl = env.TRAFFIC_REPLAY_URL || env.VITE_TRAFFIC_REPLAY_URL;
+  if (replayUrl) {
+    sources.push(ReplayTrafficSource.fromUrl(replayUrl));
+  }
+
+  return sources;
+}
+
+/**
+ * Incident feeds enabled by the environment; user reports are added by the caller,
+ * which reads them over the API in the browser and from the database on the server
+ */
+export function createIncidentSources(env: Record<string, string | undefined>): IncidentSource[] {
+  const sources: IncidentSource[] = [];
+
+  if (env.VITE_TRAFFIC_INCIDENT_FEED_URL) {
+    sources.push(new IncidentFeedSource(env.VITE_TRAFFIC_INCIDENT_FEED_URL));
+  }
+
+  if (env.VITE_GTFS_RT_ALERTS_URL) {
+    sources.push(new GtfsAlertsSource(env.VITE_GTFS_RT_ALERTS_URL, env.VITE_GTFS_STOPS_URL));
+  }
+
+  return sources;
+}
+
+
+/**
+ * Run every source, skipping ones that fail, and merge their results by id
+ */
+export async function fetchFromAll<S extends { name: string }, T extends { id: string }>(
+  sources: S[],
+  fetch: (source: S) => Promise<T[]>,
+  label: string
+): Promise<T[]> {
+  const results = await Promise.allSettled(sources.map(fetch));
+
+  const merged = new Map<string, T>();
+  results.forEach((result, index) => {
+    const source = sources[index];
+    if (result.status === 'rejected') {
+      console.warn(`Traffic source ${source.name} failed:`, result.reason);
+      return;
+    }
+    console.log(`🚦 ${source.name}: ${result.value.length} ${label}`);
+    result.value.forEach(item => merged.set(item.id, item));
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Incidents active now from every incident source
+ */
+export async function fetchActiveIncidents(
+  sources: IncidentSource[],
+  center: LatLng,
+  radiusKm: number
+): Promise<TrafficIncident[]> {
+  const now = new Date();
+  const incidents = await fetchFromAll(sources, source => source.fetchIncidents(center, radiusKm), 'incidents');
+  return incidents.filter(incident => isIncidentActive(incident, now));
+}
+
+/**
+ * Measured conditions from every source, with cause set where an active incident on the
+ * same road section explains the delay. `conditions` also lists the incidents that
+ * explain none as conditions of their own.
+ */
+export async function collectTrafficConditions(
+  sources: TrafficSource[],
+  incidentSources: IncidentSource[],
+  center: LatLng,
+  radiusKm: number
+): Promise<{ measured: TrafficCondition[]; conditions: TrafficCondition[] }> {
+  const [measured, incidents] = await Promise.all([
+    fetchFromAll(sources, source => source.fetchConditions(center, radiusKm), 'traffic conditions'),
+    fetchActiveIncidents(incidentSources, center, radiusKm)
+  ]);
+
+  const now = new Date();
+  const { conditions, unmatched } = IncidentMatcher.attribute(measured, incidents);
+  const attributed = conditions.filter(condition => condition.cause).length;
+  if (attributed > 0) {
+    console.log(`🚧 ${attributed} traffic conditions explained by incidents`);
+  }
+
+  return {
+    measured: conditions,
+    conditions: [...conditions, ...unmatched.map(incident => incidentToCondition(incident, now))]
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Traffic Stream
+ * Server-side aggregation of live traffic per geohash area. Every client subscribed to an
+ * area shares one upstream fetch per refresh, and receives only the conditions that changed.
+ */
+
+import type { LatLng } from './routingProvider';
+import type { IncidentSource } from './trafficIncident';
+import { TrafficCondition, TrafficSource, collectTrafficConditions } from './trafficSource';
+import { geohashBounds, geohashEncode } from './geo';
+
+export interface TrafficDelta {
+  area: string; // geohash of the subscribed area
+  reset: boolean; // true: upserts are the full list and replace everything held so far
+  upserts: TrafficCondition[];
+  removals: string[]; // ids of conditions that are gone
+  at: string; // ISO
+}
+
+type DeltaListener = (delta: TrafficDelta) => void;
+
+interface StreamArea {
+  center: LatLng;
+  listeners: Set<DeltaListener>;
+  conditions: Map<string, TrafficCondition>;
+  ready: boolean; // the first fetch has completed
+  timer: ReturnType<typeof setInterval>;
+}
+
+// Precision 5 areas are roughly 4.9 x 4.9 km, about one neighbourhood's worth of probes
+export const TRAFFIC_STREAM_PRECISION = 5;
+const DEFAULT_REFRESH_MS = 5 * 60 * 1000;
+const DEFAULT_RADIUS_KM = 10;
+
+export function trafficStreamArea(location: LatLng): string {
+  return geohashEncode(location, TRAFFIC_STREAM_PRECISION);
+}
+
+const areaCenter = (area: string): LatLng => {
+  const bounds = geohashBounds(area);
+  return { lat: (bounds.north + bounds.south) / 2, lng: (bounds.east + bounds.west) / 2 };
+};
+
+/**
+ * Stream URL for an area; points anywhere in the same area share one subscription
+ */
+export function trafficStreamUrl(apiUrl: string, area: string): string {
+  const center = areaCenter(area);
+  const params = new URLSearchParams({ lat: String(center.lat), lng: String(center.lng) });
+  return `${apiUrl}/api/traffic/stream?${params}`;
+}
+
+// Timestamps change on every fetch, so they don't count as a change
+const signature = (condition: TrafficCondition) => JSON.stringify({ ...condition, timestamp: undefined });
+
+/**
+ * What changed between two fetches of the same area
+ */
+export function diffTrafficConditions(
+  previous: Map<string, TrafficCondition>,
+  next: TrafficCondition[]
+): { upserts: TrafficCondition[]; removals: string[] } {
+  const nextIds = new Set(next.map(condition => condition.id));
+  return {
+    upserts: next.filter(condition => {
+      const before = previous.get(condition.id);
+      return !before || signature(before) !== signature(condition);
+    }),
+    removals: Array.from(previous.keys()).filter(id => !nextIds.has(id))
+  };
+}
+
+/**
+ * Apply a delta received as JSON to the conditions held so far
+ */
+export function applyTrafficDelta<T extends { id: string }>(
+  current: T[],
+  delta: TrafficDelta,
+  convert: (condition: TrafficCondition) => T
+): T[] {
+  const upserts = delta.upserts.map(condition => convert({ ...condition, timestamp: new Date(condition.timestamp) }));
+  if (delta.reset) return upserts;
+
+  const removed = new Set(delta.removals);
+  const updated = new Map(upserts.map(condition => [condition.id, condition]));
+  const kept = current
+    .filter(condition => !removed.has(condition.id))
+    .map(condition => updated.get(condition.id) ?? condition);
+  const keptIds = new Set(kept.map(condition => condition.id));
+
+  return [...kept, ...upserts.filter(condition => !keptIds.has(condition.id))];
+}
+
+export class TrafficAggregator {
+  private areas = new Map<string, StreamArea>();
+
+  constructor(
+    private sources: TrafficSource[],
+    private incidentSources: IncidentSource[],
+    private options: { refreshMs?: number; radiusKm?: number } = {}
+  ) {}
+
+  /**
+   * Listen for changes in the area around location. A new listener gets the area's
+   * current conditions straight away if they have been fetched, otherwise with the first fetch.
+   */
+  subscribe(location: LatLng, listener: DeltaListener): () => void {
+    const key = trafficStreamArea(location);
+    const area = this.areas.get(key) ?? this.openArea(key);
+    area.listeners.add(listener);
+
+    if (area.ready) {
+      listener(this.delta(key, true, Array.from(area.conditions.values()), []));
+    }
+
+    return () => {
+      area.listeners.delete(listener);
+      if (area.listeners.size === 0) {
+        clearInterval(area.timer);
+        this.areas.delete(key);
+        console.log(`📡 Traffic stream ${key} closed`);
+      }
+    };
+  }
+
+  private openArea(key: string): StreamArea {
+    const area: StreamArea = {
+      center: areaCenter(key),
+      listeners: new Set(),
+      conditions: new Map(),
+      ready: false,
+      timer: setInterval(() => this.refresh(key, area), this.options.refreshMs ?? DEFAULT_REFRESH_MS)
+    };
+    this.areas.set(key, area);
+    console.log(`📡 Traffic stream ${key} opened`);
+
+    this.refresh(key, area);
+    return area;
+  }
+
+  private async refresh(key: string, area: StreamArea): Promise<void> {
+    let conditions: TrafficCondition[];
+    try {
+      ({ conditions } = await collectTrafficConditions(
+        this.sources,
+        this.incidentSources,
+        area.center,
+        this.options.radiusKm ?? DEFAULT_RADIUS_KM
+      ));
+    } catch (error) {
+      console.error(`Traffic stream ${key} refresh failed:`, error);
+      return;
+    }
+
+    // Everyone left while the fetch was running
+    if (this.areas.get(key) !== area) return;
+
+    const reset = !area.ready;
+    const { upserts, removals } = reset
+      ? { upserts: conditions, removals: [] }
+      : diffTrafficConditions(area.conditions, conditions);
+
+    area.conditions = new Map(conditions.map(condition => [condition.id, condition]));
+    area.ready = true;
+
+    if (!reset && upserts.length === 0 && removals.length === 0) return;
+
+    const delta = this.delta(key, reset, upserts, removals);
+    console.log(`📡 Traffic stream ${key}: ${upserts.length} changed, ${removals.length} removed, ${area.listeners.size} listeners`);
+    area.listeners.forEach(listener => listener(delta));
+  }
+
+  private delta(area: string, reset: boolean, upserts: TrafficCondition[], removals: string[]): TrafficDelta {
+    return { area, reset, upserts, removals, at: new Date().toISOString() };
+  }
+}
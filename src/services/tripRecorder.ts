@@ -0,0 +1,76 @@
+/**
+ * Trip Recorder
+ * Captures a driven trip (chosen route, actual start/end time, GPS track) so the
+ * realized travel time can be compared with the route's prediction.
+ */
+
+import type { TripRecord, TripTrackPoint } from '../types/trafficStorage';
+import type { PositionFix } from './positionSource';
+import { RouteService, RouteResult } from './routeService';
+import { haversineMeters } from './geo';
+
+// Thin the stored track: consecutive points closer than this add nothing
+const MIN_TRACK_SPACING_METERS = 25;
+
+export class TripRecorder {
+  private readonly startTime = new Date();
+  private readonly track: TripTrackPoint[] = [];
+  private reroutes = 0;
+
+  constructor(
+    private readonly route: RouteResult,
+    private readonly destinationName: string,
+    private readonly userId?: string
+  ) {}
+
+  record(fix: PositionFix): void {
+    const last = this.track[this.track.length - 1];
+    if (last && haversineMeters(last, fix) < MIN_TRACK_SPACING_METERS) return;
+    this.track.push({ lat: fix.lat, lng: fix.lng, timestamp: fix.timestamp, speed: fix.speed });
+  }
+
+  recordReroute(): void {
+    this.reroutes++;
+  }
+
+  /**
+   * Build the record for a trip that reached its destination
+   */
+  finish(endTime: Date = new Date()): TripRecord {
+    const steps = this.route.steps || [];
+    const plannedOrigin = steps[0]?.startLocation;
+    const plannedDestination = steps[steps.length - 1]?.endLocation;
+    const origin = this.track[0] || plannedOrigin;
+    const destination = this.track[this.track.length - 1] || plannedDestination;
+    if (!origin || !destination) {
+      throw new Error('A trip needs at least one recorded position');
+    }
+
+    const actualDuration = Math.round((endTime.getTime() - this.startTime.getTime()) / 1000);
+    const freeFlowDuration = this.route.duration * 60;
+    const predictedDuration = this.route.durationWithTraffic * 60;
+
+    return {
+      id: `trip_${this.startTime.getTime()}_${Math.random().toString(36).substring(2, 8)}`,
+      userId: this.userId,
+      routeId: this.route.id,
+      routeName: this.route.name,
+      provider: this.route.provider,
+      origin: { lat: origin.lat, lng: origin.lng },
+      destination: { lat: destination.lat, lng: destination.lng, address: this.destinationName },
+      distance: Math.round(this.route.distance * 1609.34),
+      freeFlowDuration,
+      predictedDuration,
+      predictedTrafficLevel: this.route.trafficLevel,
+      actualDuration,
+      actualTrafficLevel: RouteService.calculateTrafficLevel(Math.max(0, actualDuration - freeFlowDuration), freeFlowDuration),
+      predictionError: actualDuration - predictedDuration,
+      startTime: this.startTime,
+      endTime,
+      dayOfWeek: this.startTime.getDay(),
+      hourOfDay: this.startTime.getHours(),
+      reroutes: this.reroutes,
+      track: this.track
+    };
+  }
+}
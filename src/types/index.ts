@@ -8,12 +8,14 @@ export interface TrafficData {
   id: string;
   location: Location;
   severity: 'low' | 'moderate' | 'high' | 'severe';
-  speed: number;
-  duration: number;
+  speed: number | null;
+  duration: number | null;
   confidence: number;
   timestamp: Date;
-  predictedDuration: number;
+  predictedDuration: number | null;
   affectedRoutes: string[];
+  cause?: string;
+  description?: string;
 }
 
 export interface Route {
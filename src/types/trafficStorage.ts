@@ -42,6 +42,44 @@ export interface AlternativeRoute {
   roadConditions: string[];
 }
 
+export interface TripTrackPoint {
+  lat: number;
+  lng: number;
+  timestamp: number;
+  speed: number | null; // m/s
+}
+
+// A completed trip: what the route predicted versus what actually happened
+export interface TripRecord {
+  id: string;
+  userId?: string;
+  routeId: string;
+  routeName: string;
+  provider: string;
+  origin: TrafficLocation;
+  destination: TrafficLocation;
+  distance: number; // meters, as planned
+  freeFlowDuration: number; // seconds, provider's no-traffic estimate
+  predictedDuration: number; // seconds, durationWithTraffic at departure
+  predictedTrafficLevel: 'low' | 'moderate' | 'high' | 'severe';
+  actualDuration: number; // seconds
+  actualTrafficLevel: 'low' | 'moderate' | 'high' | 'severe';
+  predictionError: number; // seconds, actual - predicted (positive = took longer)
+  startTime: Date;
+  endTime: Date;
+  dayOfWeek: number; // 0-6 (Sunday = 0)
+  hourOfDay: number; // 0-23
+  reroutes: number;
+  track: TripTrackPoint[];
+}
+
+export interface TripAccuracy {
+  trips: number;
+  meanErrorMinutes: number; // signed: positive = predictions too optimistic
+  meanAbsoluteErrorMinutes: number;
+  meanAbsolutePercentError: number;
+}
+
 export interface TrafficHotspot {
   id: string;
   location: TrafficLocation;
@@ -80,6 +118,7 @@ export interface TrafficAnalytics {
     bestRoutes: AlternativeRoute[];
     avoidRoutes: AlternativeRoute[];
   }[];
+  predictionAccuracy: TripAccuracy;
 }
 
 export interface TrafficDataCollection {
@@ -6,6 +6,15 @@ interface ImportMetaEnv {
   readonly VITE_GOOGLE_MAPS_API_KEY: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_ROUTING_PROVIDER_URL?: string
+  readonly VITE_ROUTING_PROVIDER_FLAVOR?: 'osrm' | 'valhalla'
+  readonly VITE_GEOCODER_URL?: string
+  readonly VITE_MAP_TILE_URL?: string
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string
+  readonly VITE_TRAFFIC_INCIDENT_FEED_URL?: string
+  readonly VITE_GTFS_RT_ALERTS_URL?: string
+  readonly VITE_GTFS_STOPS_URL?: string
+  readonly VITE_TRAFFIC_REPLAY_URL?: string
 }
 
 interface ImportMeta {
@@ -18,6 +27,7 @@ declare global {
     Buffer: typeof Buffer;
     util: any;
     process: any;
+    ethereum?: import('ethers').Eip1193Provider; // injected wallet, e.g. MetaMask
   }
 }
 